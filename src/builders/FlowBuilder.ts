@@ -1,6 +1,6 @@
 import type { WorkflowBuilder } from './WorkflowBuilder'
-import type { FlowStepDefinition } from '../types';
-import { FlowStepImplementer } from './StepImplementer';
+import type { FlowMapOptions, FlowSignature, FlowStepDefinition, StepExecution } from '../types';
+import { FlowMapStepImplementer, FlowStepContext, FlowStepImplementer } from './StepImplementer';
 
 /**
  * Helper class to define a flow within a workflow
@@ -8,15 +8,25 @@ import { FlowStepImplementer } from './StepImplementer';
 export class FlowBuilder<
   Steps extends Record<string, any>,
   FlowName extends string,
-  DefinedSteps extends Record<string, any> = {}
+  DefinedSteps extends Record<string, any> = {},
+  Input = undefined,
+  Flows extends Record<string, FlowSignature> = {}
 > {
   private flowSteps: Record<string, FlowStepDefinition> = {};
   private flowDependencies: Record<string, Array<string>> = {};
   
   constructor(
-    private workflowBuilder: WorkflowBuilder<Steps>,
+    private workflowBuilder: WorkflowBuilder<Steps, Flows>,
     private flowName: FlowName
   ) {}
+
+  /**
+   * Declare the type of input passed to every action of this flow
+   * The input is supplied as the second argument of execute/executeAsync
+   */
+  withInput<I>(): FlowBuilder<Steps, FlowName, DefinedSteps, I, Flows> {
+    return this as unknown as FlowBuilder<Steps, FlowName, DefinedSteps, I, Flows>;
+  }
   
   /**
    * Add a step to this flow with dependencies
@@ -27,43 +37,78 @@ export class FlowBuilder<
   >(
     stepName: K & string,
     dependencies: [...Deps] = [] as unknown as [...Deps]
-  ): FlowStepImplementer<Steps, K, Deps[number], DefinedSteps, FlowName> {
+  ): FlowStepImplementer<Steps, K, Deps[number], DefinedSteps, FlowName, Input, Flows> {
     if (stepName in this.flowSteps) {
       throw new Error(`Flow step "${stepName}" already exists in flow "${this.flowName}"`);
     }
     
     this.flowDependencies[stepName as string] = dependencies as string[];
     
-    return new FlowStepImplementer<Steps, K, Deps[number], DefinedSteps, FlowName>(
+    return new FlowStepImplementer<Steps, K, Deps[number], DefinedSteps, FlowName, Input, Flows>(
       this,
       stepName as string
     );
   }
   
 
+  /**
+   * Add a map step that runs its action once for each item selected from the context
+   * Items are processed in parallel by executeAsync, up to the optional concurrency limit
+   */
+  addFlowMapStep<
+    K extends keyof Steps,
+    Deps extends Array<keyof DefinedSteps>,
+    Item
+  >(
+    stepName: K & string,
+    dependencies: [...Deps],
+    items: (
+      context: FlowStepContext<Deps[number], DefinedSteps>,
+      container: Steps[K],
+      input: Input
+    ) => Iterable<Item>,
+    options: FlowMapOptions = {}
+  ): FlowMapStepImplementer<Steps, K, Deps[number], DefinedSteps, FlowName, Input, Flows, Item> {
+    if (stepName in this.flowSteps) {
+      throw new Error(`Flow step "${stepName}" already exists in flow "${this.flowName}"`);
+    }
+
+    this.flowDependencies[stepName as string] = dependencies as string[];
+
+    return new FlowMapStepImplementer<Steps, K, Deps[number], DefinedSteps, FlowName, Input, Flows, Item>(
+      this,
+      stepName as string,
+      { items: items as (context: Record<string, any>, container: any, input: any) => Iterable<unknown>, ...options }
+    );
+  }
+
   /**
    * Internal method to register a flow step action
    * @internal
    */
   _registerFlowAction<K extends keyof Steps, R>(
     stepName: K & string,
-    action: (container: Steps[K], context: any) => Promise<R> | R
-  ): FlowBuilder<Steps, FlowName, DefinedSteps & Record<K & string, R>> {
-    this.flowSteps[stepName] = { action };
+    action: (container: Steps[K], context: any, input: Input, execution: StepExecution) => Promise<R> | R,
+    definition: Omit<FlowStepDefinition, 'action'> = {}
+  ): FlowBuilder<Steps, FlowName, DefinedSteps & Record<K & string, R>, Input, Flows> {
+    this.flowSteps[stepName] = { action, ...definition };
   
     // Cast to type with the new step included in DefinedSteps with result type
     return this as unknown as FlowBuilder<
       Steps, 
       FlowName, 
-      DefinedSteps & Record<K & string, R>
+      DefinedSteps & Record<K & string, R>,
+      Input,
+      Flows
     >;
   }
   
   /**
    * End flow definition and return to the main builder
+   * The flow's input and step result types are recorded in the builder's flow registry
    */
-  endFlow(): WorkflowBuilder<Steps> {
-    return this.workflowBuilder._registerFlow(this.flowName, {
+  endFlow(): WorkflowBuilder<Steps, Flows & Record<FlowName, FlowSignature<Input, DefinedSteps>>> {
+    return this.workflowBuilder._registerFlow<FlowName, FlowSignature<Input, DefinedSteps>>(this.flowName, {
       steps: this.flowSteps,
       dependencies: this.flowDependencies
     });
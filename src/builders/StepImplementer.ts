@@ -1,5 +1,22 @@
 import type { FlowBuilder } from './FlowBuilder';
 import type { WorkflowBuilder } from './WorkflowBuilder'
+import type {
+  ContainerDisposer,
+  FlowCacheDefinition,
+  FlowCompensation,
+  FlowCondition,
+  FlowMapDefinition,
+  FlowSignature,
+  ResultCache,
+  ResultSchema,
+  StepExecution,
+  StepOptions
+} from '../types';
+
+/**
+ * Type of a container or flow step result: the type validated by its schema, if it has one
+ */
+type ValidatedResult<R, Validated> = [Validated] extends [never] ? R : Validated;
 
 /**
  * Helper class to define a step implementation
@@ -8,28 +25,73 @@ import type { WorkflowBuilder } from './WorkflowBuilder'
 export class StepImplementer<
   Steps extends Record<string, any>,
   CurrentStep extends string,
-  DepKeys extends keyof Steps | never
+  DepKeys extends keyof Steps | never,
+  Flows extends Record<string, FlowSignature> = {},
+  Result = unknown,
+  Validated = never
 > {
+  private disposer?: ContainerDisposer;
+  private schema?: ResultSchema<unknown>;
+
   constructor(
-    private builder: WorkflowBuilder<Steps>,
+    private builder: WorkflowBuilder<Steps, Flows>,
     private stepName: CurrentStep
   ) {}
 
+  /**
+   * Register a disposer that releases the container's resources when it is disposed or replaced
+   * It receives the container, so annotate its type to have the implementation checked against it
+   * Containers with a Symbol.asyncDispose or Symbol.dispose method do not need one
+   */
+  withDisposer<R>(
+    dispose: (container: R) => unknown
+  ): StepImplementer<Steps, CurrentStep, DepKeys, Flows, R, Validated> {
+    this.disposer = dispose as ContainerDisposer;
+    return this as unknown as StepImplementer<Steps, CurrentStep, DepKeys, Flows, R, Validated>;
+  }
+
+  /**
+   * Validate the result of the implementation at runtime, with a type guard or an object with a parse method
+   * The container gets the type checked by the schema, and a result that does not match fails the step
+   * with a SchemaValidationError
+   */
+  withSchema<V>(schema: ResultSchema<V>): StepImplementer<Steps, CurrentStep, DepKeys, Flows, Result, V> {
+    this.schema = schema as ResultSchema<unknown>;
+    return this as unknown as StepImplementer<Steps, CurrentStep, DepKeys, Flows, Result, V>;
+  }
+
   /**
    * Define the step implementation
    * 
    * Provides strong typing for dependencies and return type
+   * Options can configure a retry policy and a time limit for each attempt
    */
-  withImplementation<R>(
-    execute: (input: { [P in DepKeys]: Steps[P] }) => R
-  ): WorkflowBuilder<Steps & Record<CurrentStep, R>> {
+  withImplementation<R extends Result | Promise<Result>>(
+    execute: (input: { [P in DepKeys]: Steps[P] }, execution: StepExecution) => R,
+    options?: StepOptions
+  ): WorkflowBuilder<Steps & Record<CurrentStep, ValidatedResult<R, Validated>>, Flows> {
     return this.builder._registerImplementation(
       this.stepName,
-      execute
-    );
+      execute,
+      options,
+      this.disposer,
+      this.schema
+    ) as WorkflowBuilder<any, any>;
   }
 }
 
+/**
+ * Context passed to a flow step: the results of the steps it depends on
+ */
+export type FlowStepContext<DepKeys extends keyof any, DefinedSteps extends Record<string, any>> = {
+  [P in DepKeys]: P extends keyof DefinedSteps ? DefinedSteps[P] : never
+};
+
+/**
+ * Result type of a flow step as seen by later steps and in the flow results
+ */
+type ConditionalResult<R, Conditional extends boolean> = Conditional extends true ? R | undefined : R;
+
 /**
  * Helper class to define a flow step implementation
  */
@@ -38,25 +100,170 @@ export class FlowStepImplementer<
   CurrentStep extends keyof Steps,
   DepKeys extends keyof any,
   DefinedSteps extends Record<string, any>,
-  FlowName extends string
+  FlowName extends string,
+  Input = undefined,
+  Flows extends Record<string, FlowSignature> = {},
+  Result = unknown,
+  Conditional extends boolean = false,
+  Validated = never
 > {
+  private compensate?: FlowCompensation<Steps[CurrentStep], any>;
+  private condition?: FlowCondition<Steps[CurrentStep]>;
+  private cache?: FlowCacheDefinition;
+  private schema?: ResultSchema<unknown>;
+
   constructor(
-    private flowBuilder: FlowBuilder<Steps, FlowName, DefinedSteps>,
+    private flowBuilder: FlowBuilder<Steps, FlowName, DefinedSteps, Input, Flows>,
     private stepName: string
   ) {}
+
+  /**
+   * Only run this step when the predicate returns true, otherwise it is reported as skipped
+   * Steps depending on it see its result as possibly undefined
+   */
+  when(
+    predicate: (
+      container: Steps[CurrentStep],
+      context: FlowStepContext<DepKeys, DefinedSteps>,
+      input: Input
+    ) => boolean
+  ): FlowStepImplementer<Steps, CurrentStep, DepKeys, DefinedSteps, FlowName, Input, Flows, Result, true, Validated> {
+    this.condition = predicate as FlowCondition<Steps[CurrentStep]>;
+    return this as unknown as FlowStepImplementer<
+      Steps, CurrentStep, DepKeys, DefinedSteps, FlowName, Input, Flows, Result, true, Validated
+    >;
+  }
+
+  /**
+   * Only run this step when the predicate returns false, the else branch of when
+   */
+  unless(
+    predicate: (
+      container: Steps[CurrentStep],
+      context: FlowStepContext<DepKeys, DefinedSteps>,
+      input: Input
+    ) => boolean
+  ): FlowStepImplementer<Steps, CurrentStep, DepKeys, DefinedSteps, FlowName, Input, Flows, Result, true, Validated> {
+    return this.when((container, context, input) => !predicate(container, context, input));
+  }
+
+  /**
+   * Reuse the result of this step when it runs again with the same cache key
+   * Entries expire after ttlMs, and are cleared when the step's container or one of its dependencies is invalidated
+   * Results are kept in an in-memory LRU cache unless another cache is given
+   */
+  withCache(options: {
+    key: (
+      container: Steps[CurrentStep],
+      context: FlowStepContext<DepKeys, DefinedSteps>,
+      input: Input
+    ) => string;
+    ttlMs?: number;
+    cache?: ResultCache;
+  }): FlowStepImplementer<Steps, CurrentStep, DepKeys, DefinedSteps, FlowName, Input, Flows, Result, Conditional, Validated> {
+    this.cache = options as FlowCacheDefinition;
+    return this;
+  }
+
+  /**
+   * Validate the result of the action at runtime, with a type guard or an object with a parse method
+   * Later steps and the flow results get the type checked by the schema, and a result that does not match
+   * fails the step with a SchemaValidationError
+   */
+  withSchema<V>(
+    schema: ResultSchema<V>
+  ): FlowStepImplementer<Steps, CurrentStep, DepKeys, DefinedSteps, FlowName, Input, Flows, Result, Conditional, V> {
+    this.schema = schema as ResultSchema<unknown>;
+    return this as unknown as FlowStepImplementer<
+      Steps, CurrentStep, DepKeys, DefinedSteps, FlowName, Input, Flows, Result, Conditional, V
+    >;
+  }
+
+  /**
+   * Register a compensation that undoes this step when a later step of the flow fails
+   * It receives the step's result, so annotate its type to have the action checked against it
+   */
+  withCompensation<R>(
+    compensate: (
+      result: R,
+      container: Steps[CurrentStep],
+      context: FlowStepContext<DepKeys, DefinedSteps>,
+      input: Input
+    ) => unknown
+  ): FlowStepImplementer<Steps, CurrentStep, DepKeys, DefinedSteps, FlowName, Input, Flows, R, Conditional, Validated> {
+    this.compensate = compensate as FlowCompensation<Steps[CurrentStep], any>;
+    return this as unknown as FlowStepImplementer<
+      Steps, CurrentStep, DepKeys, DefinedSteps, FlowName, Input, Flows, R, Conditional, Validated
+    >;
+  }
   
   /**
-   * Define the flow step action with proper type inference for context
+   * Define the flow step action with proper type inference for context and input
+   * Options can configure a retry policy and a time limit for each attempt
    */
-  withFlowAction<ResultType>(
+  withFlowAction<ResultType extends Result>(
     action: (
       container: Steps[CurrentStep],
-      context: { [P in DepKeys]: P extends keyof DefinedSteps ? DefinedSteps[P] : never }
-    ) => Promise<ResultType> | ResultType
-  ): FlowBuilder<Steps, FlowName, DefinedSteps & Record<CurrentStep & string, ResultType>> {
+      context: FlowStepContext<DepKeys, DefinedSteps>,
+      input: Input,
+      execution: StepExecution
+    ) => Promise<ResultType> | ResultType,
+    options?: StepOptions
+  ): FlowBuilder<
+    Steps,
+    FlowName,
+    DefinedSteps & Record<CurrentStep & string, ConditionalResult<ValidatedResult<ResultType, Validated>, Conditional>>,
+    Input,
+    Flows
+  > {
+    // Conditional steps are recorded as possibly undefined for the steps depending on them
     return this.flowBuilder._registerFlowAction<CurrentStep, ResultType>(
       this.stepName as CurrentStep & string,
-      action
+      action,
+      { ...options, compensate: this.compensate, condition: this.condition, cache: this.cache, schema: this.schema }
+    ) as FlowBuilder<any, any, any, any, any>;
+  }
+}
+
+/**
+ * Helper class to define the per-item action of a map step
+ */
+export class FlowMapStepImplementer<
+  Steps extends Record<string, any>,
+  CurrentStep extends keyof Steps,
+  DepKeys extends keyof any,
+  DefinedSteps extends Record<string, any>,
+  FlowName extends string,
+  Input,
+  Flows extends Record<string, FlowSignature>,
+  Item
+> {
+  constructor(
+    private flowBuilder: FlowBuilder<Steps, FlowName, DefinedSteps, Input, Flows>,
+    private stepName: string,
+    private map: FlowMapDefinition
+  ) {}
+
+  /**
+   * Define the action run once per item, the step result is the array of item results
+   * Options can configure a retry policy and a time limit for each item attempt
+   */
+  withFlowAction<ResultType>(
+    action: (
+      container: Steps[CurrentStep],
+      item: Item,
+      context: FlowStepContext<DepKeys, DefinedSteps>,
+      input: Input,
+      execution: StepExecution
+    ) => Promise<ResultType> | ResultType,
+    options?: StepOptions
+  ): FlowBuilder<Steps, FlowName, DefinedSteps & Record<CurrentStep & string, ResultType[]>, Input, Flows> {
+    // The runtime passes the current item through the execution object
+    return this.flowBuilder._registerFlowAction<CurrentStep, any>(
+      this.stepName as CurrentStep & string,
+      (container, context, input, execution) =>
+        action(container, execution.item as Item, context, input, execution),
+      { ...options, map: this.map }
     );
   }
 }
@@ -1,17 +1,60 @@
-import { FlowDefinition, FlowStepDefinition, StepImplementation, Workflow } from '../types';
+import {
+  BuildOptions,
+  ContainerDisposer,
+  ExecutionPlan,
+  FlowAction,
+  FlowDefinition,
+  FlowSignature,
+  FlowStepDefinition,
+  ResultSchema,
+  StepExecution,
+  StepImplementation,
+  StepMiddleware,
+  StepOptions,
+  UseModuleOptions,
+  Workflow,
+  WorkflowEventListener,
+  WorkflowEventMap,
+  WorkflowModule
+} from '../types';
 import { StepImplementer } from './StepImplementer';
 import { FlowBuilder } from './FlowBuilder';
+import type { ModuleFlows, ModuleRequirements, ModuleSteps } from './WorkflowModule';
 import { WorkflowInstance } from '../workflow';
 import { hasCircularDependency } from '../utils/common';
+import { createExecutionPlan } from '../utils/plan';
+
+/**
+ * Module whose steps and flows are being added by use()
+ */
+interface ModuleScope {
+  name: string;
+  namespace?: string;
+  // Names of the steps added by the module, before the namespace is applied
+  localSteps: Set<string>;
+}
 
 /**
  * Type-safe workflow builder with fluent API and multi-flow support
  */
-export class WorkflowBuilder<Steps extends Record<string, any> = {}> {
+export class WorkflowBuilder<
+  Steps extends Record<string, any> = {},
+  Flows extends Record<string, FlowSignature> = {}
+> {
   private steps: Record<string, StepImplementation<any>> = {};
+  private stepOptions: Record<string, StepOptions> = {};
+  private disposers: Record<string, ContainerDisposer> = {};
+  private schemas: Record<string, ResultSchema<unknown>> = {};
   private dependencies: Record<string, Array<keyof Steps>> = {};
   private flows: Record<string, FlowDefinition> = {};
+  private listeners: Array<[keyof WorkflowEventMap, WorkflowEventListener<any>]> = [];
+  private middleware: StepMiddleware[] = [];
   private buildFlowName = "__build__";
+  // Containers of the parent workflow when building a scope
+  private parentContainers?: Record<string, any>;
+  // Module being added by use() and the module that added each step
+  private moduleScope?: ModuleScope;
+  private stepModules: Record<string, string> = {};
   
   /**
    * Start defining a step with its name and dependencies
@@ -19,23 +62,26 @@ export class WorkflowBuilder<Steps extends Record<string, any> = {}> {
   addStep<K extends string, Deps extends Array<keyof Steps>>(
     name: K extends keyof Steps ? never : K,
     dependencies: [...Deps]
-  ): StepImplementer<Steps, K, Deps[number]> {
-    if (name in this.steps) {
-      throw new Error(`Step "${name}" already exists`);
+  ): StepImplementer<Steps, K, Deps[number], Flows> {
+    const stepName = this.qualifyName(name);
+    if (this.hasStep(stepName)) {
+      throw this.createDuplicateStepError(stepName);
     }
     
     // Validate dependencies exist
-    for (const dep of dependencies) {
-      if (!(String(dep) in this.steps)) {
-        throw new Error(`Dependency "${String(dep)}" does not exist for step "${name}"`);
+    const stepDependencies = dependencies.map(dep => this.resolveStepName(String(dep)));
+    for (const dep of stepDependencies) {
+      if (!this.hasStep(dep)) {
+        throw new Error(`Dependency "${dep}" does not exist for step "${stepName}"${this.describeModuleScope()}`);
       }
     }
     
-    this.dependencies[name] = dependencies;
+    this.dependencies[stepName] = stepDependencies;
+    this.recordModuleStep(name, stepName);
     
-    return new StepImplementer<Steps, K, Deps[number]>(
+    return new StepImplementer<Steps, K, Deps[number], Flows>(
       this,
-      name
+      stepName as K
     );
   }
 
@@ -44,50 +90,226 @@ export class WorkflowBuilder<Steps extends Record<string, any> = {}> {
    */
   addStepWithoutDependencies<K extends string>(
     name: K extends keyof Steps ? never : K
-  ): StepImplementer<Steps, K, never> {
-    if (name in this.steps) {
-      throw new Error(`Step "${name}" already exists`);
+  ): StepImplementer<Steps, K, never, Flows> {
+    const stepName = this.qualifyName(name);
+    if (this.hasStep(stepName)) {
+      throw this.createDuplicateStepError(stepName);
     }
     
-    this.dependencies[name] = [];
+    this.dependencies[stepName] = [];
+    this.recordModuleStep(name, stepName);
     
-    return new StepImplementer<Steps, K, never>(
+    return new StepImplementer<Steps, K, never, Flows>(
       this,
-      name
+      stepName as K
     );
   }
 
+  /**
+   * Add a middleware that wraps every attempt of every step implementation and flow action
+   * Middleware run in the order they were added, each one calling next to run the rest of the chain and the step,
+   * and can skip the step by not calling next, transform its result or rethrow its error
+   */
+  use(middleware: StepMiddleware): this;
+
+  /**
+   * Add the steps and flows of a module to this workflow
+   * The steps the module requires must already be defined with matching types
+   * With a namespace, the module's steps and flows are renamed to "namespace.name"
+   */
+  use<
+    Requires extends Record<string, any>,
+    Provides extends Record<string, any>,
+    Signatures extends Record<string, FlowSignature>,
+    Namespace extends string = never
+  >(
+    module: WorkflowModule<Requires, Provides, Signatures> & ModuleRequirements<Steps, Requires>,
+    options?: UseModuleOptions<Namespace>
+  ): WorkflowBuilder<
+    Steps & ModuleSteps<Requires, Provides, Namespace>,
+    Flows & ModuleFlows<Requires, Provides, Signatures, Namespace>
+  >;
+
+  use(
+    moduleOrMiddleware: WorkflowModule<any, any, any> | StepMiddleware,
+    options: UseModuleOptions = {}
+  ): WorkflowBuilder<any, any> {
+    if (typeof moduleOrMiddleware === 'function') {
+      this.middleware.push(moduleOrMiddleware);
+      return this;
+    }
+
+    const module = moduleOrMiddleware;
+    if (this.moduleScope) {
+      throw new Error(`Module "${module.name}" cannot be used inside module "${this.moduleScope.name}"`);
+    }
+
+    this.moduleScope = { name: module.name, namespace: options.namespace, localSteps: new Set() };
+    try {
+      module.define(this as unknown as WorkflowBuilder<any, {}>);
+    } finally {
+      this.moduleScope = undefined;
+    }
+
+    return this;
+  }
+
   /**
    * Internal method to register a step implementation
    * @internal
    */
   _registerImplementation<K extends string, D extends keyof Steps, R>(
     name: K,
-    execute: (input: { [P in D]: Steps[P] }) => Promise<R> | R
-  ): WorkflowBuilder<Steps & Record<K, R>> {
-    this.steps[name] = execute;
-    return this as unknown as WorkflowBuilder<Steps & Record<K, R>>;
+    execute: (input: { [P in D]: Steps[P] }, execution: StepExecution) => Promise<R> | R,
+    options: StepOptions = {},
+    disposer?: ContainerDisposer,
+    schema?: ResultSchema<unknown>
+  ): WorkflowBuilder<Steps & Record<K, R>, Flows> {
+    this.steps[name] = this.moduleScope?.namespace ? this.localizeImplementation(execute) : execute;
+    this.stepOptions[name] = options;
+    if (disposer) {
+      this.disposers[name] = disposer;
+    }
+    if (schema) {
+      this.schemas[name] = schema;
+    }
+    return this as unknown as WorkflowBuilder<Steps & Record<K, R>, Flows>;
+  }
+
+  /**
+   * Internal method to build a scope on top of the containers of a parent workflow
+   * Parent containers can be used as dependencies and flow steps but are never re-run
+   * @internal
+   */
+  _registerParentContainers<P extends Record<string, any>>(containers: P): WorkflowBuilder<Steps & P, Flows> {
+    this.parentContainers = containers;
+    return this as unknown as WorkflowBuilder<Steps & P, Flows>;
   }
 
   /**
    * Define a new flow for the workflow
    */
-  defineFlow<F extends string>(flowName: F): FlowBuilder<Steps, F, {}> {
-    if (flowName in this.flows) {
-      throw new Error(`Flow "${flowName}" already exists`);
+  defineFlow<F extends string>(flowName: F): FlowBuilder<Steps, F, {}, undefined, Flows> {
+    const name = this.qualifyName(flowName);
+    if (name in this.flows) {
+      throw new Error(`Flow "${name}" already exists${this.describeModuleScope()}`);
     }
-    return new FlowBuilder<Steps, F, {}>(this, flowName);
+    return new FlowBuilder<Steps, F, {}, undefined, Flows>(this, name as F);
   }
 
   /**
    * Internal method to register a flow
    * @internal
    */
-  _registerFlow(flowName: string, flowDef: FlowDefinition): this {
-    this.flows[flowName] = flowDef;
+  _registerFlow<F extends string, Signature extends FlowSignature>(
+    flowName: F,
+    flowDef: FlowDefinition
+  ): WorkflowBuilder<Steps, Flows & Record<F, Signature>> {
+    this.flows[flowName] = this.moduleScope ? this.qualifyFlow(flowDef) : flowDef;
+    return this as unknown as WorkflowBuilder<Steps, Flows & Record<F, Signature>>;
+  }
+
+  /**
+   * Internal method to read the structure registered on this builder, without the build flow
+   * @internal
+   */
+  _getDefinition(): {
+    steps: Record<string, StepImplementation<any>>;
+    stepOptions: Record<string, StepOptions>;
+    disposers: Record<string, ContainerDisposer>;
+    schemas: Record<string, ResultSchema<unknown>>;
+    dependencies: Record<string, Array<string>>;
+    flows: Record<string, FlowDefinition>;
+  } {
+    const { [this.buildFlowName]: _build, ...flows } = this.flows;
+    return {
+      steps: this.steps,
+      stepOptions: this.stepOptions,
+      disposers: this.disposers,
+      schemas: this.schemas,
+      dependencies: this.dependencies as Record<string, Array<string>>,
+      flows
+    };
+  }
+
+  /**
+   * Internal method to copy this builder with step implementations and flow actions replaced
+   * The copy keeps the dependency graph, options and listeners, this builder is left untouched
+   * @internal
+   */
+  _cloneWith(
+    steps: Record<string, StepImplementation<any>>,
+    actions: Record<string, Record<string, FlowAction<any, any>>>
+  ): WorkflowBuilder<Steps, Flows> {
+    const clone = new WorkflowBuilder<Steps, Flows>();
+    const flows: Record<string, FlowDefinition> = {};
+
+    for (const [flowName, flow] of Object.entries(this.flows)) {
+      const flowSteps: Record<string, FlowStepDefinition> = {};
+      for (const [stepName, step] of Object.entries(flow.steps)) {
+        flowSteps[stepName] = { ...step, action: actions[flowName]?.[stepName] ?? step.action };
+      }
+      flows[flowName] = { steps: flowSteps, dependencies: flow.dependencies };
+    }
+
+    clone.steps = { ...this.steps, ...steps };
+    clone.stepOptions = { ...this.stepOptions };
+    clone.disposers = { ...this.disposers };
+    clone.schemas = { ...this.schemas };
+    clone.dependencies = { ...this.dependencies };
+    clone.flows = flows;
+    clone.listeners = [...this.listeners];
+    clone.middleware = [...this.middleware];
+    clone.parentContainers = this.parentContainers;
+    clone.stepModules = { ...this.stepModules };
+    return clone;
+  }
+
+  /**
+   * Work out the steps a flow, or the build when no flow is given, would run, before building the workflow
+   * Returns the execution order, the parallel levels, the critical path and the dependency chain of every step
+   */
+  plan(flowName?: keyof Flows & string): ExecutionPlan {
+    if (flowName === undefined) {
+      return createExecutionPlan(this.dependencies as Record<string, Array<string>>, Object.keys(this.dependencies));
+    }
+    if (!(flowName in this.flows) || flowName === this.buildFlowName) {
+      throw new Error(`Flow "${flowName}" does not exist`);
+    }
+    const flow = this.flows[flowName];
+    return createExecutionPlan(flow.dependencies, Object.keys(flow.steps), flowName);
+  }
+
+  /**
+   * Listen to flow and step lifecycle events of the built workflow
+   * Listeners registered here also receive the events of the initial build
+   */
+  on<E extends keyof WorkflowEventMap>(event: E, listener: WorkflowEventListener<E>): this {
+    this.listeners.push([event, listener]);
     return this;
   }
 
+  /**
+   * Create a workflow instance with the builder's listeners attached
+   */
+  private createInstance(): WorkflowInstance<Steps, Flows> {
+    const workflow = new WorkflowInstance<Steps, Flows>(
+      this.steps,
+      this.dependencies,
+      this.flows,
+      this.buildFlowName,
+      this.disposers,
+      this.parentContainers,
+      [...this.middleware]
+    );
+
+    for (const [event, listener] of this.listeners) {
+      workflow.on(event, listener);
+    }
+
+    return workflow;
+  }
+
   /**
    * Create a special build flow that executes all steps in the workflow
    * This is used by build() and buildAsync()
@@ -98,10 +320,13 @@ export class WorkflowBuilder<Steps extends Record<string, any> = {}> {
     const buildSteps: Record<string, FlowStepDefinition> = {};
     
     // Copy all dependencies and create simple actions that return the container value
+    // Step options such as retry policies, and schemas, are carried over to the build flow steps
     for (const [stepName, deps] of Object.entries(this.dependencies)) {
       buildDependencies[stepName] = deps.map(String);
       buildSteps[stepName] = {
-        action: (container) => container
+        action: (container) => container,
+        ...this.stepOptions[stepName],
+        schema: this.schemas[stepName]
       };
     }
     
@@ -116,7 +341,7 @@ export class WorkflowBuilder<Steps extends Record<string, any> = {}> {
    * Build the workflow synchronously
    * This creates and initializes all containers
    */
-  build(): Workflow<Steps> {
+  build(): Workflow<Steps, Flows> {
     // Validate no circular dependencies
     this.checkForCircularDependencies();
     
@@ -127,24 +352,41 @@ export class WorkflowBuilder<Steps extends Record<string, any> = {}> {
     this.createBuildFlow();
     
     // Create a workflow instance
-    const workflow = new WorkflowInstance<Steps>(
-      this.steps,
-      this.dependencies,
-      this.flows,
-      this.buildFlowName
-    );
+    const workflow = this.createInstance();
     
     // Execute the build flow synchronously
-    workflow.execute(this.buildFlowName);
+    workflow._executeFlow(this.buildFlowName);
     
     return workflow;
   }
   
+  /**
+   * Build the workflow lazily, without running any step
+   * Each container is built with the dependencies it is missing on first read, through containers, get or getAsync,
+   * and kept afterwards. Asynchronous steps must be read with getAsync
+   */
+  buildLazy(): Workflow<Steps, Flows> {
+    // Validate no circular dependencies
+    this.checkForCircularDependencies();
+
+    // Validate flows
+    this.validateFlows();
+
+    // Create a build flow, run for the missing containers on first read
+    this.createBuildFlow();
+
+    const workflow = this.createInstance();
+    workflow._registerLazyContainers();
+
+    return workflow;
+  }
+
   /**
    * Build the workflow asynchronously
    * This allows steps to be async functions
+   * Options can cancel the build through an AbortSignal and set time limits
    */
-  async buildAsync(): Promise<Workflow<Steps>> {
+  async buildAsync(options?: BuildOptions): Promise<Workflow<Steps, Flows>> {
     // Validate no circular dependencies
     this.checkForCircularDependencies();
     
@@ -155,15 +397,10 @@ export class WorkflowBuilder<Steps extends Record<string, any> = {}> {
     this.createBuildFlow();
     
     // Create a workflow instance
-    const workflow = new WorkflowInstance<Steps>(
-      this.steps,
-      this.dependencies,
-      this.flows,
-      this.buildFlowName
-    );
+    const workflow = this.createInstance();
     
     // Execute the build flow asynchronously
-    await workflow.executeAsync(this.buildFlowName);
+    await workflow._executeFlowAsync(this.buildFlowName, undefined, options);
     
     return workflow;
   }
@@ -178,6 +415,114 @@ export class WorkflowBuilder<Steps extends Record<string, any> = {}> {
     }
   }
 
+  /**
+   * Apply the namespace of the module being added to a step or flow name
+   */
+  private qualifyName(name: string): string {
+    const namespace = this.moduleScope?.namespace;
+    return namespace ? `${namespace}.${name}` : name;
+  }
+
+  /**
+   * Resolve a step referenced by the module being added: its own steps are namespaced,
+   * the steps it requires from the host workflow are not
+   */
+  private resolveStepName(name: string): string {
+    return this.moduleScope?.localSteps.has(name) ? this.qualifyName(name) : name;
+  }
+
+  /**
+   * Remember the steps added by the module being added
+   */
+  private recordModuleStep(name: string, stepName: string): void {
+    if (this.moduleScope) {
+      this.moduleScope.localSteps.add(name);
+      this.stepModules[stepName] = this.moduleScope.name;
+    }
+  }
+
+  /**
+   * Rename the steps of a flow defined by the module being added
+   */
+  private qualifyFlow(flowDef: FlowDefinition): FlowDefinition {
+    const steps: Record<string, FlowStepDefinition> = {};
+    const dependencies: Record<string, Array<string>> = {};
+
+    for (const [stepName, step] of Object.entries(flowDef.steps)) {
+      steps[this.resolveStepName(stepName)] = this.moduleScope?.namespace ? this.localizeFlowStep(step) : step;
+    }
+    for (const [stepName, deps] of Object.entries(flowDef.dependencies)) {
+      dependencies[this.resolveStepName(stepName)] = deps.map(dep => this.resolveStepName(dep));
+    }
+
+    return { steps, dependencies };
+  }
+
+  /**
+   * Create a function that exposes the module's own steps under their names without namespace,
+   * so module code keeps reading its inputs and flow context as it defined them
+   */
+  private createLocalizer(): (values: Record<string, any>) => Record<string, any> {
+    const aliases = Array.from(this.moduleScope?.localSteps ?? [], name => [name, this.qualifyName(name)]);
+
+    return (values) => {
+      const localized = { ...values };
+      for (const [name, stepName] of aliases) {
+        if (stepName in values) {
+          localized[name] = values[stepName];
+        }
+      }
+      return localized;
+    };
+  }
+
+  /**
+   * Wrap a step implementation of a namespaced module so it receives its inputs under local names
+   */
+  private localizeImplementation(execute: StepImplementation<any>): StepImplementation<any> {
+    const localize = this.createLocalizer();
+    return (input, execution) => execute(localize(input), execution);
+  }
+
+  /**
+   * Wrap the callbacks of a flow step of a namespaced module so they receive the flow context under local names
+   */
+  private localizeFlowStep(step: FlowStepDefinition): FlowStepDefinition {
+    const localize = this.createLocalizer();
+    const { action, compensate, condition, cache, map } = step;
+
+    return {
+      ...step,
+      action: (container, context, input, execution) => action(container, localize(context), input, execution),
+      compensate: compensate && ((result, container, context, input) => compensate(result, container, localize(context), input)),
+      condition: condition && ((container, context, input) => condition(container, localize(context), input)),
+      cache: cache && { ...cache, key: (container, context, input) => cache.key(container, localize(context), input) },
+      map: map && { ...map, items: (context, container, input) => map.items(localize(context), container, input) }
+    };
+  }
+
+  /**
+   * Create the error for a step name that is already taken, naming the modules involved
+   */
+  private createDuplicateStepError(stepName: string): Error {
+    const owner = stepName in this.stepModules ? ` in module "${this.stepModules[stepName]}"` : '';
+    return new Error(`Step "${stepName}" already exists${owner}${this.describeModuleScope()}`);
+  }
+
+  /**
+   * Describe the module being added, for error messages
+   */
+  private describeModuleScope(): string {
+    return this.moduleScope ? ` (while using module "${this.moduleScope.name}")` : '';
+  }
+
+  /**
+   * Check whether a step is defined in this workflow or provided by the parent workflow
+   */
+  private hasStep(name: string): boolean {
+    return name in this.steps || (this.parentContainers !== undefined && name in this.parentContainers);
+  }
+
     /**
    * Validate all flows
    * @private
@@ -191,7 +536,7 @@ export class WorkflowBuilder<Steps extends Record<string, any> = {}> {
       
       // Validate steps exist in main workflow
       for (const stepName of Object.keys(flow.steps)) {
-        if (!(stepName in this.steps)) {
+        if (!this.hasStep(stepName)) {
           throw new Error(`Flow "${flowName}" references step "${stepName}" which does not exist in the main workflow`);
         }
       }
@@ -199,7 +544,7 @@ export class WorkflowBuilder<Steps extends Record<string, any> = {}> {
       // Validate dependencies exist in main workflow
       for (const [stepName, deps] of Object.entries(flow.dependencies)) {
         for (const dep of deps) {
-          if (!(dep in this.steps)) {
+          if (!this.hasStep(dep)) {
             throw new Error(`Flow "${flowName}" step "${stepName}" depends on "${dep}" which does not exist in the main workflow`);
           }
           
@@ -0,0 +1,55 @@
+import type { WorkflowBuilder } from './WorkflowBuilder';
+import type { FlowSignature, WorkflowModule } from '../types';
+
+/**
+ * Steps added by a module, without the steps it requires from the host workflow
+ */
+type LocalSteps<Requires, Provides> = Omit<Provides, keyof Requires>;
+
+/**
+ * Name of a module step or flow once its namespace is applied
+ */
+type Qualify<K, Namespace extends string> = [Namespace] extends [never] ? K : `${Namespace}.${K & string}`;
+
+/**
+ * Steps a module adds to the host workflow
+ */
+export type ModuleSteps<Requires, Provides, Namespace extends string> = {
+  [K in keyof LocalSteps<Requires, Provides> as Qualify<K, Namespace>]: LocalSteps<Requires, Provides>[K]
+};
+
+/**
+ * Flows a module adds to the host workflow, results of module steps are namespaced like the steps
+ */
+export type ModuleFlows<
+  Requires,
+  Provides,
+  Flows extends Record<string, FlowSignature>,
+  Namespace extends string
+> = {
+  [F in keyof Flows as Qualify<F, Namespace>]: FlowSignature<Flows[F]['input'], {
+    [S in keyof Flows[F]['results'] as S extends keyof LocalSteps<Requires, Provides> ? Qualify<S, Namespace> : S]: Flows[F]['results'][S]
+  }>
+};
+
+/**
+ * Rejects modules whose required steps are missing from the host workflow or have other types
+ */
+export type ModuleRequirements<Steps, Requires> = [Steps] extends [Requires]
+  ? unknown
+  : { missingRequirements: Exclude<keyof Requires, keyof Steps> };
+
+/**
+ * Package a set of steps and flows as a module that can be added to workflow builders with use()
+ * Annotate the builder parameter with the steps the module requires from the host workflow
+ */
+export function defineModule<
+  Requires extends Record<string, any> = {},
+  Provides extends Record<string, any> = {},
+  Flows extends Record<string, FlowSignature> = {}
+>(
+  name: string,
+  define: (builder: WorkflowBuilder<Requires, {}>) => WorkflowBuilder<Provides, Flows>
+): WorkflowModule<Requires, Provides, Flows> {
+  return { name, define };
+}
@@ -0,0 +1,100 @@
+import type { MapItemReport, SchemaIssue } from './types';
+
+/**
+ * Error raised when a flow or one of its steps exceeds its time limit
+ */
+export class WorkflowTimeoutError extends Error {
+  constructor(
+    message: string,
+    public readonly timeoutMs: number,
+    public readonly stepName?: string
+  ) {
+    super(message);
+    this.name = 'WorkflowTimeoutError';
+  }
+}
+
+/**
+ * Error raised when items of a map step failed
+ * All items are processed before it is raised, the report of each one is kept in items
+ */
+export class MapStepError extends Error {
+  constructor(
+    message: string,
+    public readonly items: MapItemReport[]
+  ) {
+    super(message);
+    this.name = 'MapStepError';
+  }
+}
+
+/**
+ * Error raised when a flow run is cancelled through its AbortSignal
+ */
+export class WorkflowCancelledError extends Error {
+  constructor(
+    message: string,
+    public readonly reason?: unknown
+  ) {
+    super(message);
+    this.name = 'WorkflowCancelledError';
+  }
+}
+
+/**
+ * Error raised when containers failed to be disposed
+ * Every container is disposed before it is raised, the error of each failed one is kept in errors
+ */
+export class ContainerDisposeError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'ContainerDisposeError';
+  }
+}
+
+/**
+ * Error raised when a step result or flow input cannot be written to a state store
+ */
+export class CheckpointError extends Error {
+  constructor(
+    message: string,
+    public readonly path: string,
+    public readonly stepName?: string
+  ) {
+    super(message);
+    this.name = 'CheckpointError';
+  }
+}
+
+/**
+ * Error raised when the result of a step does not match the schema given with withSchema
+ * The path points at the first invalid part of the result, every problem reported by the schema is kept in issues
+ */
+export class SchemaValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly stepName: string,
+    public readonly path: string,
+    public readonly issues: SchemaIssue[]
+  ) {
+    super(message);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+/**
+ * Error raised when a step returns a Promise in a synchronous run
+ * stepName is the asynchronous step, which may be a dependency of the step that was requested
+ */
+export class AsyncStepError extends Error {
+  constructor(
+    message: string,
+    public readonly stepName: string
+  ) {
+    super(message);
+    this.name = 'AsyncStepError';
+  }
+}
@@ -0,0 +1,138 @@
+import type { FlowSignature, Workflow } from './types';
+import { groupByLevel, topologicalSort } from './utils/common';
+
+/**
+ * Dependency graph of the build or of a flow, prepared for rendering
+ */
+interface GraphModel {
+  name: string;
+  // Steps grouped by the level they run at, as in executeAsync
+  levels: string[][];
+  // Dependency edges as [dependency, dependent]
+  edges: Array<[string, string]>;
+  // Containers acted on by the steps of a flow, not set for the build graph
+  containers?: string[];
+}
+
+/**
+ * Collect the steps, levels and edges of the build graph or of a named flow
+ */
+function createGraphModel(workflow: Workflow<any, any>, flowName?: string): GraphModel {
+  if (flowName !== undefined && !(flowName in workflow.flows)) {
+    throw new Error(`Flow "${flowName}" does not exist`);
+  }
+
+  const dependencies = flowName === undefined
+    ? workflow.dependencies as Record<string, Array<string>>
+    : workflow.flows[flowName].dependencies;
+  const order = topologicalSort(dependencies);
+  const edges: Array<[string, string]> = [];
+
+  for (const stepName of order) {
+    for (const dep of dependencies[stepName] || []) {
+      edges.push([dep, stepName]);
+    }
+  }
+
+  return {
+    name: flowName ?? 'build',
+    levels: groupByLevel(dependencies, order),
+    edges,
+    containers: flowName === undefined ? undefined : order.filter(stepName => stepName in workflow.flows[flowName].steps)
+  };
+}
+
+/**
+ * Escape a label for a quoted Mermaid string
+ */
+function escapeMermaid(label: string): string {
+  return label.replace(/"/g, '#quot;');
+}
+
+/**
+ * Escape an identifier or label for a quoted DOT string
+ */
+function escapeDot(label: string): string {
+  return label.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * Render the build graph, or the graph of a named flow, as a Mermaid flowchart
+ * Steps are grouped in one subgraph per level, and flow steps are linked to the containers they act on
+ */
+export function toMermaid<Flows extends Record<string, FlowSignature>>(
+  workflow: Workflow<any, Flows>,
+  flowName?: keyof Flows & string
+): string {
+  const graph = createGraphModel(workflow, flowName);
+  // Step names can contain characters Mermaid does not accept in ids, so nodes get generated ids
+  const stepIds: Record<string, string> = {};
+  const lines = ['flowchart TD'];
+
+  graph.levels.forEach((levelSteps, level) => {
+    lines.push(`  subgraph level_${level}["Level ${level}"]`);
+    for (const stepName of levelSteps) {
+      stepIds[stepName] = `step_${Object.keys(stepIds).length}`;
+      lines.push(`    ${stepIds[stepName]}["${escapeMermaid(stepName)}"]`);
+    }
+    lines.push('  end');
+  });
+
+  for (const [dep, stepName] of graph.edges) {
+    lines.push(`  ${stepIds[dep]} --> ${stepIds[stepName]}`);
+  }
+
+  if (graph.containers) {
+    lines.push('  subgraph containers["Containers"]');
+    graph.containers.forEach((stepName, index) => {
+      lines.push(`    container_${index}[("${escapeMermaid(stepName)}")]`);
+    });
+    lines.push('  end');
+    graph.containers.forEach((stepName, index) => {
+      lines.push(`  container_${index} -.->|acts on| ${stepIds[stepName]}`);
+    });
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render the build graph, or the graph of a named flow, as Graphviz DOT
+ * Steps are grouped in one cluster per level, and flow steps are linked to the containers they act on
+ */
+export function toDot<Flows extends Record<string, FlowSignature>>(
+  workflow: Workflow<any, Flows>,
+  flowName?: keyof Flows & string
+): string {
+  const graph = createGraphModel(workflow, flowName);
+  const lines = [`digraph "${escapeDot(graph.name)}" {`, '  rankdir=TB;'];
+
+  graph.levels.forEach((levelSteps, level) => {
+    lines.push(`  subgraph cluster_level_${level} {`);
+    lines.push(`    label="Level ${level}";`);
+    for (const stepName of levelSteps) {
+      lines.push(`    "${escapeDot(stepName)}";`);
+    }
+    lines.push('  }');
+  });
+
+  for (const [dep, stepName] of graph.edges) {
+    lines.push(`  "${escapeDot(dep)}" -> "${escapeDot(stepName)}";`);
+  }
+
+  if (graph.containers) {
+    lines.push('  subgraph cluster_containers {');
+    lines.push('    label="Containers";');
+    lines.push('    node [shape=cylinder];');
+    for (const stepName of graph.containers) {
+      lines.push(`    "${escapeDot(`container:${stepName}`)}" [label="${escapeDot(stepName)}"];`);
+    }
+    lines.push('  }');
+    for (const stepName of graph.containers) {
+      lines.push(`  "${escapeDot(`container:${stepName}`)}" -> "${escapeDot(stepName)}" [style=dashed, label="acts on"];`);
+    }
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
@@ -1,16 +1,94 @@
 // Export main classes
 export { WorkflowBuilder } from './builders/WorkflowBuilder';
 export { WorkflowInstance } from './workflow';
+export { defineModule } from './builders/WorkflowModule';
+
+// Export declarative loading and serialization
+export { loadWorkflow, serializeWorkflow } from './loader';
+export type { LoadedWorkflowBuilder } from './loader';
+
+// Export state stores
+export { MemoryStateStore } from './stores/MemoryStateStore';
+export { FileStateStore } from './stores/FileStateStore';
+
+// Export result caches
+export { LruResultCache } from './stores/LruResultCache';
+
+// Export testing helpers
+export { createTestWorkflow, TestWorkflow } from './testing';
+export type { TestOverrides, RecordedStepCall, RecordedActionCall } from './testing';
+
+// Export graph renderers
+export { toMermaid, toDot } from './graph';
 
 // Export utility functions
-export { isPromise, hasCircularDependency, topologicalSort } from './utils/common';
+export { isPromise, hasCircularDependency, topologicalSort, collectDependents, groupByLevel } from './utils/common';
+
+// Export errors
+export {
+  WorkflowTimeoutError,
+  WorkflowCancelledError,
+  MapStepError,
+  ContainerDisposeError,
+  CheckpointError,
+  SchemaValidationError,
+  AsyncStepError
+} from './errors';
 
 // Export types
 export type {
+  StepExecution,
   StepImplementation,
+  StepMiddleware,
+  StepMiddlewareContext,
+  ContainerDisposer,
   FlowAction,
+  FlowCompensation,
+  FlowCondition,
+  CacheEntry,
+  ResultCache,
+  FlowCacheDefinition,
+  RetryPolicy,
+  ResultSchema,
+  SchemaIssue,
+  StepOptions,
   FlowStepDefinition,
+  FlowMapDefinition,
+  FlowMapOptions,
   FlowDefinition,
   FlowResults,
+  FlowExecutionResult,
+  ExecutionPlan,
+  ErrorPolicy,
+  StepStatus,
+  StepReport,
+  CompensationReport,
+  MapItemReport,
+  ExecuteOptions,
+  AsyncExecuteOptions,
+  BuildOptions,
+  ResumeOptions,
+  RunCheckpoint,
+  StateStore,
+  FlowStartEvent,
+  FlowEndEvent,
+  StepStartEvent,
+  StepSuccessEvent,
+  StepErrorEvent,
+  WorkflowEventMap,
+  WorkflowEventListener,
+  WorkflowSnapshot,
+  ContainerChangeListener,
+  FlowSignature,
+  FlowInputArgs,
+  WorkflowModule,
+  UseModuleOptions,
+  WorkflowDocument,
+  StepDocument,
+  FlowDocument,
+  FlowStepDocument,
+  FlowCacheDocument,
+  ImplementationRegistry,
+  LoadWorkflowOptions,
   Workflow
 } from './types';
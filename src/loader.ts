@@ -0,0 +1,227 @@
+import type {
+  FlowDocument,
+  FlowSignature,
+  ImplementationRegistry,
+  LoadWorkflowOptions,
+  ResultSchema,
+  RetryPolicy,
+  StepDocument,
+  WorkflowDocument
+} from './types';
+import { WorkflowBuilder } from './builders/WorkflowBuilder';
+import { hasCircularDependency, topologicalSort } from './utils/common';
+
+/**
+ * Builder produced from a workflow document, whose step and flow types are only known at runtime
+ */
+export type LoadedWorkflowBuilder = WorkflowBuilder<Record<string, any>, Record<string, FlowSignature>>;
+
+/**
+ * Look up a function of the registry referenced by a document
+ */
+function resolve(registry: ImplementationRegistry, name: string, usage: string): (...args: any[]) => any {
+  const implementation = registry[name];
+  if (typeof implementation !== 'function') {
+    throw new Error(`Implementation "${name}" used by ${usage} is not registered`);
+  }
+  return implementation;
+}
+
+/**
+ * Check the shape of a parsed document before it is loaded
+ */
+function assertWorkflowDocument(document: unknown): asserts document is WorkflowDocument {
+  const isRecord = (value: unknown): value is Record<string, any> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+  if (!isRecord(document) || !isRecord(document.steps)) {
+    throw new Error('Invalid workflow document: "steps" must be an object');
+  }
+  for (const [stepName, step] of Object.entries(document.steps)) {
+    if (!isRecord(step) || typeof step.implementation !== 'string') {
+      throw new Error(`Invalid workflow document: step "${stepName}" must name its implementation`);
+    }
+  }
+  if (document.flows !== undefined && !isRecord(document.flows)) {
+    throw new Error('Invalid workflow document: "flows" must be an object');
+  }
+  for (const [flowName, flow] of Object.entries(document.flows ?? {})) {
+    if (!isRecord(flow) || !isRecord(flow.steps)) {
+      throw new Error(`Invalid workflow document: flow "${flowName}" must have steps`);
+    }
+    for (const [stepName, step] of Object.entries(flow.steps)) {
+      if (!isRecord(step) || typeof step.action !== 'string') {
+        throw new Error(`Invalid workflow document: step "${stepName}" of flow "${flowName}" must name its action`);
+      }
+    }
+  }
+}
+
+/**
+ * Load a workflow document into a builder, the same way the fluent API defines it
+ * Documents can be given as objects or as text, parsed as JSON unless another parser is given
+ * The result is validated by build() and buildAsync() like any other builder
+ */
+export function loadWorkflow(
+  source: string | WorkflowDocument,
+  registry: ImplementationRegistry,
+  options: LoadWorkflowOptions = {}
+): LoadedWorkflowBuilder {
+  const { parse = JSON.parse } = options;
+  const document: unknown = typeof source === 'string' ? parse(source) : source;
+  assertWorkflowDocument(document);
+
+  const dependencies: Record<string, Array<string>> = {};
+  for (const [stepName, step] of Object.entries(document.steps)) {
+    dependencies[stepName] = step.dependencies ?? [];
+  }
+  if (hasCircularDependency(dependencies)) {
+    throw new Error(`Circular dependency detected in workflow`);
+  }
+
+  // Steps are only known at runtime, so the fluent API is driven without static step types
+  let builder: any = new WorkflowBuilder();
+
+  // Steps can only depend on steps added before them, so they are added in dependency order
+  for (const stepName of topologicalSort(dependencies)) {
+    // Unknown dependencies are left to the dependency check of addStep
+    if (!(stepName in document.steps)) {
+      continue;
+    }
+
+    const step = document.steps[stepName];
+    const usage = `step "${stepName}"`;
+    let implementer = builder.addStep(stepName, dependencies[stepName]);
+    if (step.disposer !== undefined) {
+      implementer = implementer.withDisposer(resolve(registry, step.disposer, usage));
+    }
+    if (step.schema !== undefined) {
+      implementer = implementer.withSchema(resolve(registry, step.schema, usage));
+    }
+    builder = implementer.withImplementation(resolve(registry, step.implementation, usage), {
+      retry: step.retry,
+      timeoutMs: step.timeoutMs
+    });
+  }
+
+  for (const [flowName, flow] of Object.entries(document.flows ?? {})) {
+    let flowBuilder = builder.defineFlow(flowName);
+
+    for (const [stepName, step] of Object.entries(flow.steps)) {
+      const usage = `step "${stepName}" of flow "${flowName}"`;
+      let implementer = flowBuilder.addFlowStep(stepName, step.dependencies ?? []);
+      if (step.condition !== undefined) {
+        implementer = implementer.when(resolve(registry, step.condition, usage));
+      }
+      if (step.compensation !== undefined) {
+        implementer = implementer.withCompensation(resolve(registry, step.compensation, usage));
+      }
+      if (step.cache !== undefined) {
+        implementer = implementer.withCache({
+          key: resolve(registry, step.cache.key, usage),
+          ttlMs: step.cache.ttlMs
+        });
+      }
+      if (step.schema !== undefined) {
+        implementer = implementer.withSchema(resolve(registry, step.schema, usage));
+      }
+      flowBuilder = implementer.withFlowAction(resolve(registry, step.action, usage), {
+        retry: step.retry,
+        timeoutMs: step.timeoutMs
+      });
+    }
+
+    builder = flowBuilder.endFlow();
+  }
+
+  return builder as LoadedWorkflowBuilder;
+}
+
+/**
+ * Serialize the structure of a builder back to a workflow document
+ * Every implementation, action and callback must be registered in the registry under the name written to the document
+ */
+export function serializeWorkflow(
+  builder: WorkflowBuilder<any, any>,
+  registry: ImplementationRegistry
+): WorkflowDocument {
+  const definition = builder._getDefinition();
+  const names = new Map<unknown, string>();
+  for (const [name, implementation] of Object.entries(registry)) {
+    names.set(implementation, name);
+  }
+
+  const nameOf = (implementation: unknown, usage: string): string => {
+    const name = names.get(implementation);
+    if (name === undefined) {
+      throw new Error(`The ${usage} is not registered, so it cannot be serialized`);
+    }
+    return name;
+  };
+
+  // Type guards are plain functions and are written by name, parse objects have no name in the registry
+  const serializeSchema = (schema: ResultSchema<unknown>, usage: string): string => {
+    if (typeof schema !== 'function') {
+      throw new Error(`The schema of ${usage} is not a type guard, so it cannot be serialized`);
+    }
+    return nameOf(schema, `schema of ${usage}`);
+  };
+
+  const serializeRetry = (retry: RetryPolicy | undefined, usage: string): Omit<RetryPolicy, 'retryIf'> | undefined => {
+    if (retry?.retryIf) {
+      throw new Error(`The retry policy of ${usage} has a retryIf function, so it cannot be serialized`);
+    }
+    return retry;
+  };
+
+  const steps: Record<string, StepDocument> = {};
+  for (const stepName of Object.keys(definition.dependencies)) {
+    const usage = `step "${stepName}"`;
+    const { retry, timeoutMs } = definition.stepOptions[stepName] ?? {};
+    steps[stepName] = {
+      implementation: nameOf(definition.steps[stepName], `implementation of ${usage}`),
+      dependencies: definition.dependencies[stepName],
+      ...(retry && { retry: serializeRetry(retry, usage) }),
+      ...(timeoutMs !== undefined && { timeoutMs }),
+      ...(stepName in definition.disposers && {
+        disposer: nameOf(definition.disposers[stepName], `disposer of ${usage}`)
+      }),
+      ...(stepName in definition.schemas && {
+        schema: serializeSchema(definition.schemas[stepName], usage)
+      })
+    };
+  }
+
+  const flows: Record<string, FlowDocument> = {};
+  for (const [flowName, flow] of Object.entries(definition.flows)) {
+    flows[flowName] = { steps: {} };
+
+    for (const [stepName, step] of Object.entries(flow.steps)) {
+      const usage = `step "${stepName}" of flow "${flowName}"`;
+      if (step.map) {
+        throw new Error(`The ${usage} is a map step, which cannot be serialized`);
+      }
+      if (step.cache?.cache) {
+        throw new Error(`The cache of ${usage} is a custom result cache, so it cannot be serialized`);
+      }
+
+      flows[flowName].steps[stepName] = {
+        action: nameOf(step.action, `action of ${usage}`),
+        dependencies: flow.dependencies[stepName] ?? [],
+        ...(step.retry && { retry: serializeRetry(step.retry, usage) }),
+        ...(step.timeoutMs !== undefined && { timeoutMs: step.timeoutMs }),
+        ...(step.compensate && { compensation: nameOf(step.compensate, `compensation of ${usage}`) }),
+        ...(step.condition && { condition: nameOf(step.condition, `condition of ${usage}`) }),
+        ...(step.cache && {
+          cache: {
+            key: nameOf(step.cache.key, `cache key of ${usage}`),
+            ...(step.cache.ttlMs !== undefined && { ttlMs: step.cache.ttlMs })
+          }
+        }),
+        ...(step.schema && { schema: serializeSchema(step.schema, usage) })
+      };
+    }
+  }
+
+  return { steps, flows };
+}
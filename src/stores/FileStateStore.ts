@@ -0,0 +1,44 @@
+import type { RunCheckpoint, StateStore } from '../types';
+
+/**
+ * State store that writes one JSON file per run to a directory
+ * Files are replaced atomically, so a crash while saving keeps the previous checkpoint
+ */
+export class FileStateStore implements StateStore {
+  constructor(private directory: string) {}
+
+  async load(runId: string): Promise<RunCheckpoint | undefined> {
+    const { promises: fs } = await import('fs');
+    try {
+      return JSON.parse(await fs.readFile(await this.getPath(runId), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async save(runId: string, checkpoint: RunCheckpoint): Promise<void> {
+    const { promises: fs } = await import('fs');
+    const filePath = await this.getPath(runId);
+    const tempPath = `${filePath}.tmp`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(checkpoint), 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(runId: string): Promise<void> {
+    const { promises: fs } = await import('fs');
+    await fs.rm(await this.getPath(runId), { force: true });
+  }
+
+  /**
+   * Path of the checkpoint file of a run, run IDs are encoded so they cannot escape the directory
+   */
+  private async getPath(runId: string): Promise<string> {
+    const path = await import('path');
+    return path.join(this.directory, `${encodeURIComponent(runId)}.json`);
+  }
+}
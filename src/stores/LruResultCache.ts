@@ -0,0 +1,38 @@
+import type { CacheEntry, ResultCache } from '../types';
+
+/**
+ * In-memory result cache that evicts the least recently used entry once it is full
+ * This is the default cache of flow steps configured with withCache
+ */
+export class LruResultCache implements ResultCache {
+  // Maps iterate in insertion order, so entries are re-inserted when used and the first one is the oldest
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = 1000) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): Iterable<string> {
+    return this.entries.keys();
+  }
+}
@@ -0,0 +1,22 @@
+import type { RunCheckpoint, StateStore } from '../types';
+
+/**
+ * State store that keeps checkpoints in memory, for tests and single-process retries
+ * Checkpoints are copied through JSON, so they behave like checkpoints read back from storage
+ */
+export class MemoryStateStore implements StateStore {
+  private checkpoints = new Map<string, string>();
+
+  async load(runId: string): Promise<RunCheckpoint | undefined> {
+    const stored = this.checkpoints.get(runId);
+    return stored === undefined ? undefined : JSON.parse(stored);
+  }
+
+  async save(runId: string, checkpoint: RunCheckpoint): Promise<void> {
+    this.checkpoints.set(runId, JSON.stringify(checkpoint));
+  }
+
+  async delete(runId: string): Promise<void> {
+    this.checkpoints.delete(runId);
+  }
+}
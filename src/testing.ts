@@ -0,0 +1,185 @@
+import type {
+  BuildOptions,
+  FlowAction,
+  FlowSignature,
+  StepExecution,
+  StepImplementation,
+  Workflow
+} from './types';
+import type { WorkflowBuilder } from './builders/WorkflowBuilder';
+
+/**
+ * Step implementations and flow actions replaced in a test workflow
+ */
+export interface TestOverrides<
+  Steps extends Record<string, any>,
+  Flows extends Record<string, FlowSignature>
+> {
+  // Replacement implementations, by step name
+  steps?: {
+    [K in keyof Steps]?: (input: Record<string, any>, execution: StepExecution) => Steps[K] | Promise<Steps[K]>
+  };
+  // Replacement actions, by flow name and step name
+  // Map steps run their replacement once per item, with the item in execution.item
+  actions?: {
+    [F in keyof Flows]?: {
+      [S in keyof Flows[F]['results']]?: (
+        container: S extends keyof Steps ? Steps[S] : never,
+        context: Record<string, any>,
+        input: Flows[F]['input'],
+        execution: StepExecution
+      ) => unknown
+    }
+  };
+}
+
+/**
+ * Call of a step implementation recorded by a test workflow
+ */
+export interface RecordedStepCall {
+  // Dependencies the step received
+  input: Record<string, any>;
+}
+
+/**
+ * Call of a flow action recorded by a test workflow
+ */
+export interface RecordedActionCall<Container = unknown, Input = unknown> {
+  container: Container;
+  // Results of the steps the action depends on, as they were when it was called
+  context: Record<string, any>;
+  input: Input;
+}
+
+/**
+ * Workflow builder with replaced implementations and actions, recording every call made to them
+ */
+export class TestWorkflow<
+  Steps extends Record<string, any>,
+  Flows extends Record<string, FlowSignature>
+> {
+  // Builder the test workflows are built from
+  readonly builder: WorkflowBuilder<Steps, Flows>;
+
+  private stepCallLog: Record<string, RecordedStepCall[]> = {};
+  private actionCallLog: Record<string, Record<string, RecordedActionCall[]>> = {};
+
+  constructor(source: WorkflowBuilder<Steps, Flows>, overrides: TestOverrides<Steps, Flows> = {}) {
+    const definition = source._getDefinition();
+    const stepOverrides: Partial<Record<string, StepImplementation<any>>> = overrides.steps ?? {};
+    const actionOverrides: Partial<Record<string, Partial<Record<string, FlowAction<any, any>>>>> = overrides.actions ?? {};
+    const steps: Record<string, StepImplementation<any>> = {};
+    const actions: Record<string, Record<string, FlowAction<any, any>>> = {};
+
+    for (const stepName of Object.keys(stepOverrides)) {
+      if (!(stepName in definition.steps)) {
+        throw new Error(`Step "${stepName}" does not exist`);
+      }
+    }
+    for (const [flowName, flowOverrides] of Object.entries(actionOverrides)) {
+      if (!(flowName in definition.flows)) {
+        throw new Error(`Flow "${flowName}" does not exist`);
+      }
+      for (const stepName of Object.keys(flowOverrides ?? {})) {
+        if (!(stepName in definition.flows[flowName].steps)) {
+          throw new Error(`Flow step "${stepName}" does not exist in flow "${flowName}"`);
+        }
+      }
+    }
+
+    // Every implementation and action is wrapped to record its calls, whether it is replaced or not
+    for (const [stepName, original] of Object.entries(definition.steps)) {
+      const execute = stepOverrides[stepName] ?? original;
+      this.stepCallLog[stepName] = [];
+      steps[stepName] = (input, execution) => {
+        this.stepCallLog[stepName].push({ input });
+        return execute(input, execution);
+      };
+    }
+
+    for (const [flowName, flow] of Object.entries(definition.flows)) {
+      this.actionCallLog[flowName] = {};
+      actions[flowName] = {};
+
+      for (const [stepName, step] of Object.entries(flow.steps)) {
+        const action = actionOverrides[flowName]?.[stepName] ?? step.action;
+        this.actionCallLog[flowName][stepName] = [];
+        actions[flowName][stepName] = (container, context, input, execution) => {
+          // The run context keeps growing, so the call records a copy of it
+          this.actionCallLog[flowName][stepName].push({ container, context: { ...context }, input });
+          return action(container, context, input, execution);
+        };
+      }
+    }
+
+    this.builder = source._cloneWith(steps, actions);
+  }
+
+  /**
+   * Build the test workflow synchronously
+   */
+  build(): Workflow<Steps, Flows> {
+    return this.builder.build();
+  }
+
+  /**
+   * Build the test workflow asynchronously
+   */
+  buildAsync(options?: BuildOptions): Promise<Workflow<Steps, Flows>> {
+    return this.builder.buildAsync(options);
+  }
+
+  /**
+   * Calls made to the implementation of a step, in call order
+   */
+  stepCalls(stepName: keyof Steps & string): RecordedStepCall[] {
+    if (!(stepName in this.stepCallLog)) {
+      throw new Error(`Step "${stepName}" does not exist`);
+    }
+    return this.stepCallLog[stepName];
+  }
+
+  /**
+   * Calls made to the action of a flow step, in call order
+   */
+  actionCalls<F extends keyof Flows & string, S extends keyof Flows[F]['results'] & string>(
+    flowName: F,
+    stepName: S
+  ): RecordedActionCall<S extends keyof Steps ? Steps[S] : never, Flows[F]['input']>[] {
+    if (!(flowName in this.actionCallLog)) {
+      throw new Error(`Flow "${flowName}" does not exist`);
+    }
+    if (!(stepName in this.actionCallLog[flowName])) {
+      throw new Error(`Flow step "${stepName}" does not exist in flow "${flowName}"`);
+    }
+    return this.actionCallLog[flowName][stepName] as RecordedActionCall<any, any>[];
+  }
+
+  /**
+   * Forget the recorded calls, for example between the build and the flow runs under test
+   */
+  clearCalls(): void {
+    for (const calls of Object.values(this.stepCallLog)) {
+      calls.length = 0;
+    }
+    for (const flowCalls of Object.values(this.actionCallLog)) {
+      for (const calls of Object.values(flowCalls)) {
+        calls.length = 0;
+      }
+    }
+  }
+}
+
+/**
+ * Create a test workflow from a builder, replacing some step implementations and flow actions
+ * The dependency graph, options and types of the builder are kept, and the builder itself is left untouched
+ */
+export function createTestWorkflow<
+  Steps extends Record<string, any>,
+  Flows extends Record<string, FlowSignature>
+>(
+  builder: WorkflowBuilder<Steps, Flows>,
+  overrides?: TestOverrides<Steps, Flows>
+): TestWorkflow<Steps, Flows> {
+  return new TestWorkflow(builder, overrides);
+}
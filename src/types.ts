@@ -1,15 +1,169 @@
+import type { WorkflowBuilder } from './builders/WorkflowBuilder';
+
+/**
+ * Runtime information passed to every step implementation and flow action
+ */
+export interface StepExecution {
+  // Aborted when the run is cancelled or times out, or the step times out
+  signal: AbortSignal;
+  // Current attempt, starting at 1
+  attempt: number;
+  // Item being processed and its position, only set for map steps
+  item?: unknown;
+  index?: number;
+}
+
 /**
  * Interface for step implementation
  */
 export interface StepImplementation<T> {
-  (input: any): Promise<T> | T;
+  (input: any, execution: StepExecution): Promise<T> | T;
+}
+
+/**
+ * Interface for a disposer that releases the resources held by a container
+ */
+export interface ContainerDisposer<T = any> {
+  (container: T): unknown;
 }
 
 /**
  * Interface for a flow action that works with containers
  */
 export interface FlowAction<T, R> {
-  (container: T, context?: Record<string, any>): Promise<R> | R;
+  (container: T, context: Record<string, any>, input: any, execution: StepExecution): Promise<R> | R;
+}
+
+/**
+ * Step being run, as seen by middleware
+ */
+export interface StepMiddlewareContext {
+  flowName: string;
+  stepName: string;
+  // True for the steps of the flow run by build, buildAsync, refresh and invalidate
+  isBuild: boolean;
+  // Dependencies of a build step, or the input of a flow run
+  input: unknown;
+  // Container the flow step acts on, not set for build steps
+  container?: unknown;
+  // Results of the flow steps completed so far, not set for build steps
+  context?: Record<string, any>;
+  // Signal, attempt and map item of the run
+  execution: StepExecution;
+}
+
+/**
+ * Middleware wrapping every attempt of a step implementation or flow action
+ * next runs the rest of the chain and the step, its result is returned by execute synchronously
+ * and is a Promise or a value with executeAsync
+ */
+export type StepMiddleware = (ctx: StepMiddlewareContext, next: () => unknown) => unknown;
+
+/**
+ * Retry policy for a step implementation or flow action
+ */
+export interface RetryPolicy {
+  // Total number of attempts, including the first one
+  maxAttempts: number;
+  // Delay strategy between attempts (defaults to fixed)
+  backoff?: 'fixed' | 'exponential';
+  // Base delay in milliseconds before the next attempt (defaults to 0)
+  delayMs?: number;
+  // Multiplier applied per attempt for exponential backoff (defaults to 2)
+  factor?: number;
+  // Upper bound for the delay in milliseconds
+  maxDelayMs?: number;
+  // Fraction of the delay (0 to 1) that is randomly removed to spread retries
+  jitter?: number;
+  // Only retry errors for which this returns true
+  retryIf?: (error: unknown) => boolean;
+}
+
+/**
+ * Runtime check of a step result: a type guard, or an object whose parse method
+ * returns the validated value and throws when the value is invalid
+ */
+export type ResultSchema<T> = ((value: unknown) => value is T) | { parse: (value: unknown) => T };
+
+/**
+ * Problem found in a step result by its schema
+ */
+export interface SchemaIssue {
+  message: string;
+  // Keys leading to the invalid part of the result, empty for the result itself
+  path: Array<string | number>;
+}
+
+/**
+ * Options for a step implementation or flow action
+ */
+export interface StepOptions {
+  retry?: RetryPolicy;
+  // Time limit in milliseconds for each attempt, only enforced by asynchronous execution
+  timeoutMs?: number;
+}
+
+/**
+ * Interface for a compensation that undoes a completed flow step
+ */
+export interface FlowCompensation<T, R> {
+  (result: R, container: T, context: Record<string, any>, input: any): Promise<unknown> | unknown;
+}
+
+/**
+ * Interface for a predicate deciding whether a flow step runs
+ */
+export interface FlowCondition<T> {
+  (container: T, context: Record<string, any>, input: any): boolean;
+}
+
+/**
+ * Cached result of a flow step
+ */
+export interface CacheEntry {
+  value: unknown;
+  // Time in milliseconds since the epoch at which the entry expires, never when undefined
+  expiresAt?: number;
+}
+
+/**
+ * Storage for the cached results of flow steps
+ * It is used synchronously, so that execute can read it as well as executeAsync
+ */
+export interface ResultCache {
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): void;
+  keys(): Iterable<string>;
+}
+
+/**
+ * Cache configuration of a flow step
+ */
+export interface FlowCacheDefinition {
+  // Computes the key the result is cached under from the container, context and input
+  key: (container: any, context: Record<string, any>, input: any) => string;
+  // Time in milliseconds a cached result is reused, forever when undefined
+  ttlMs?: number;
+  // Cache the results are stored in (defaults to the in-memory LRU cache of the workflow)
+  cache?: ResultCache;
+}
+
+/**
+ * Map configuration of a flow step that runs its action once per item
+ */
+export interface FlowMapDefinition {
+  // Selects the items to process from the context, container and input
+  items: (context: Record<string, any>, container: any, input: any) => Iterable<unknown>;
+  // Maximum number of items processed at the same time by executeAsync
+  concurrency?: number;
+}
+
+/**
+ * Options of a map step
+ */
+export interface FlowMapOptions {
+  concurrency?: number;
 }
 
 /**
@@ -17,6 +171,16 @@ export interface FlowAction<T, R> {
  */
 export interface FlowStepDefinition {
   action: FlowAction<any, any>;
+  retry?: RetryPolicy;
+  timeoutMs?: number;
+  compensate?: FlowCompensation<any, any>;
+  condition?: FlowCondition<any>;
+  // Validates the result of every run of the step
+  schema?: ResultSchema<unknown>;
+  // Present on steps whose results are reused for the same cache key
+  cache?: FlowCacheDefinition;
+  // Present on map steps: the action runs once per item with execution.item set
+  map?: FlowMapDefinition;
 }
 
 /**
@@ -32,21 +196,405 @@ export interface FlowDefinition {
  */
 export type FlowResults = Record<string, any>;
 
+/**
+ * How a flow run reacts to a failing step
+ * - failFast: abort the run and throw the step error (default)
+ * - continue: record the failure and keep running every other step
+ * - skipDependents: record the failure and skip the steps that depend on it
+ */
+export type ErrorPolicy = 'failFast' | 'continue' | 'skipDependents';
+
+/**
+ * Status of a step after a flow run
+ */
+export type StepStatus = 'succeeded' | 'failed' | 'skipped';
+
+/**
+ * Outcome of a single step in a flow run
+ */
+export interface StepReport {
+  status: StepStatus;
+  // Error of a failed step
+  error?: unknown;
+  // Failed step that caused this step to be skipped
+  failedDependency?: string;
+  // True when the step was skipped because its when condition was not met
+  skippedByCondition?: boolean;
+  // True when the result was restored from the checkpoint of a resumed run
+  restored?: boolean;
+  // Whether the result of a cached step was found in the cache or computed
+  cache?: 'hit' | 'miss';
+}
+
+/**
+ * Outcome of a single item of a map step
+ */
+export interface MapItemReport {
+  status: 'succeeded' | 'failed';
+  attempts: number;
+  result?: unknown;
+  error?: unknown;
+}
+
+/**
+ * Outcome of a compensation run after a failed flow
+ */
+export interface CompensationReport {
+  status: 'compensated' | 'failed';
+  error?: unknown;
+}
+
+/**
+ * Outcome of a flow run
+ */
+export interface FlowExecutionResult<Results extends Record<string, any> = FlowResults> {
+  // Results of the steps that succeeded
+  results: Results;
+  // False when any step failed
+  success: boolean;
+  // Number of attempts each executed step needed, including retries
+  attempts: Record<string, number>;
+  // Status of every step of the flow
+  steps: Record<string, StepReport>;
+  // Compensations run for completed steps after a failure, in the order they ran
+  compensations: Record<string, CompensationReport>;
+  // Outcome of every item of the map steps that ran
+  items: Record<string, MapItemReport[]>;
+}
+
+/**
+ * How the steps of the build or of a flow would run, as returned by plan()
+ */
+export interface ExecutionPlan {
+  // Flow the plan is for, not set for the build
+  flowName?: string;
+  // Steps in the order execute runs them
+  order: string[];
+  // Steps grouped by dependency level, the steps of a level can run in parallel with executeAsync
+  levels: string[][];
+  // Longest chain of steps that depend on each other, which bounds how far the run can be parallelized
+  criticalPath: string[];
+  criticalPathLength: number;
+  // Steps every step waits for, directly or transitively, in execution order
+  dependencyChains: Record<string, string[]>;
+}
+
+/**
+ * Payload of the flowStart event
+ */
+export interface FlowStartEvent {
+  flowName: string;
+  // True for the flow run by build, buildAsync and refresh
+  isBuild: boolean;
+}
+
+/**
+ * Payload of the flowEnd event
+ */
+export interface FlowEndEvent extends FlowStartEvent {
+  durationMs: number;
+  success: boolean;
+  error?: unknown;
+}
+
+/**
+ * Payload of the stepStart event
+ */
+export interface StepStartEvent extends FlowStartEvent {
+  stepName: string;
+  // Parallel level of the step, 0 for steps without dependencies
+  level: number;
+}
+
+/**
+ * Payload of the stepSuccess event
+ */
+export interface StepSuccessEvent extends StepStartEvent {
+  durationMs: number;
+  // 0 when the result was read from the cache
+  attempts: number;
+  result: unknown;
+  // Set for flow steps configured with withCache
+  cache?: 'hit' | 'miss';
+}
+
+/**
+ * Payload of the stepError event
+ */
+export interface StepErrorEvent extends StepStartEvent {
+  durationMs: number;
+  attempts: number;
+  error: unknown;
+}
+
+/**
+ * Events emitted while a workflow executes flows
+ */
+export interface WorkflowEventMap {
+  flowStart: FlowStartEvent;
+  flowEnd: FlowEndEvent;
+  stepStart: StepStartEvent;
+  stepSuccess: StepSuccessEvent;
+  stepError: StepErrorEvent;
+}
+
+/**
+ * Listener for a workflow event
+ */
+export type WorkflowEventListener<E extends keyof WorkflowEventMap> = (event: WorkflowEventMap[E]) => void;
+
+/**
+ * Immutable view of the containers at a version, as returned by getSnapshot
+ */
+export interface WorkflowSnapshot<T> {
+  // Incremented every time containers are replaced, added or removed
+  readonly version: number;
+  readonly containers: Readonly<{ [K in keyof T]: T[K] }>;
+}
+
+/**
+ * Listener notified with the names of the containers that changed
+ */
+export type ContainerChangeListener<T> = (changed: Array<keyof T & string>) => void;
+
+/**
+ * Compile-time signature of a flow: the input it accepts and the result of each step
+ */
+export interface FlowSignature<Input = any, Results extends Record<string, any> = FlowResults> {
+  input: Input;
+  results: Results;
+}
+
+/**
+ * Reusable set of steps and flows that is added to a workflow builder with use()
+ * Requires lists the steps the module depends on, which the host workflow must provide
+ */
+export interface WorkflowModule<
+  Requires extends Record<string, any> = {},
+  Provides extends Record<string, any> = {},
+  ModuleFlows extends Record<string, FlowSignature> = {}
+> {
+  name: string;
+  define: (builder: WorkflowBuilder<Requires, {}>) => WorkflowBuilder<Provides, ModuleFlows>;
+}
+
+/**
+ * Options for adding a module to a workflow builder
+ */
+export interface UseModuleOptions<Namespace extends string = string> {
+  // Prefix for the names of the module's steps and flows, as in "auth.user"
+  namespace?: Namespace;
+}
+
+/**
+ * Declarative description of a workflow, as loaded from JSON or YAML
+ * Steps, actions and callbacks refer to functions of an implementation registry by name
+ */
+export interface WorkflowDocument {
+  steps: Record<string, StepDocument>;
+  flows?: Record<string, FlowDocument>;
+}
+
+/**
+ * Declarative description of a workflow step
+ */
+export interface StepDocument {
+  implementation: string;
+  dependencies?: string[];
+  retry?: Omit<RetryPolicy, 'retryIf'>;
+  timeoutMs?: number;
+  disposer?: string;
+  // Type guard validating the result
+  schema?: string;
+}
+
+/**
+ * Declarative description of a flow
+ */
+export interface FlowDocument {
+  steps: Record<string, FlowStepDocument>;
+}
+
+/**
+ * Declarative description of a flow step
+ */
+export interface FlowStepDocument {
+  action: string;
+  dependencies?: string[];
+  retry?: Omit<RetryPolicy, 'retryIf'>;
+  timeoutMs?: number;
+  compensation?: string;
+  condition?: string;
+  cache?: FlowCacheDocument;
+  // Type guard validating the result
+  schema?: string;
+}
+
+/**
+ * Declarative description of the cache of a flow step
+ */
+export interface FlowCacheDocument {
+  key: string;
+  ttlMs?: number;
+}
+
+/**
+ * Functions referenced by name from a workflow document
+ */
+export type ImplementationRegistry = Record<string, (...args: any[]) => any>;
+
+/**
+ * Options for loading a workflow document
+ */
+export interface LoadWorkflowOptions {
+  // Parser for documents given as text, such as a YAML parser (defaults to JSON.parse)
+  parse?: (text: string) => unknown;
+}
+
+/**
+ * Options for flow execution
+ */
+export interface ExecuteOptions {
+  // How the run reacts to a failing step (defaults to failFast)
+  errorPolicy?: ErrorPolicy;
+}
+
+/**
+ * Options for asynchronous flow execution
+ */
+export interface AsyncExecuteOptions extends ExecuteOptions {
+  // Cancels the run: steps that have not started yet are not started
+  signal?: AbortSignal;
+  // Time limit in milliseconds for the whole run
+  timeoutMs?: number;
+  // Default time limit in milliseconds for each step attempt
+  stepTimeoutMs?: number;
+  // Maximum number of steps running at the same time, unlimited by default
+  concurrency?: number;
+  // Store that checkpoints the result of every completed step under runId
+  store?: StateStore;
+  runId?: string;
+}
+
+/**
+ * Options for buildAsync and the other asynchronous runs of the build
+ * Builds always fail fast: a partial build would leave new containers next to ones built from the previous values
+ */
+export type BuildOptions = Omit<AsyncExecuteOptions, 'errorPolicy'>;
+
+/**
+ * Options for resuming a checkpointed run
+ */
+export interface ResumeOptions extends Omit<AsyncExecuteOptions, 'store' | 'runId'> {
+  store: StateStore;
+}
+
+/**
+ * Progress of a flow run, as written to a state store
+ */
+export interface RunCheckpoint {
+  flowName: string;
+  input?: unknown;
+  // Steps that completed, in completion order, and their results
+  completedSteps: string[];
+  results: Record<string, unknown>;
+}
+
+/**
+ * Storage for the checkpoints of flow runs
+ */
+export interface StateStore {
+  // Returns undefined when no checkpoint exists for the run
+  load(runId: string): Promise<RunCheckpoint | undefined>;
+  save(runId: string, checkpoint: RunCheckpoint): Promise<void>;
+  delete(runId: string): Promise<void>;
+}
+
+/**
+ * Arguments accepted after the flow name when executing a flow
+ * The input can be omitted for flows that did not declare one with withInput
+ */
+export type FlowInputArgs<Input, Options = never> = undefined extends Input
+  ? [input?: Input, options?: Options]
+  : [input: Input, options?: Options];
+
 /**
  * Enhanced workflow interface with improved type safety
  */
-export interface Workflow<T> {
+export interface Workflow<
+  T,
+  Flows extends Record<string, FlowSignature> = Record<string, FlowSignature>
+> {
   // Direct access to containers
   containers: { [K in keyof T]: T[K] };
   
   // Execute a flow synchronously
-  execute: (flowName: string) => { results: FlowResults; success: boolean };
+  execute: <F extends keyof Flows & string>(
+    flowName: F,
+    ...args: FlowInputArgs<Flows[F]['input'], ExecuteOptions>
+  ) => FlowExecutionResult<Flows[F]['results']>;
   
   // Execute a flow asynchronously
-  executeAsync: (flowName: string) => Promise<{ results: FlowResults; success: boolean }>;
+  executeAsync: <F extends keyof Flows & string>(
+    flowName: F,
+    ...args: FlowInputArgs<Flows[F]['input'], AsyncExecuteOptions>
+  ) => Promise<FlowExecutionResult<Flows[F]['results']>>;
   
   // Force re-execution of all workflow steps (for React hooks)
   refresh: () => void;
+
+  // Rebuild all containers asynchronously, swapping them in only when the build succeeds
+  refreshAsync: (options?: BuildOptions) => Promise<void>;
+
+  // Create a child workflow whose steps can depend on the containers of this workflow
+  createScope: <S extends Record<string, any>, F extends Record<string, FlowSignature>>(
+    scopeBuilder: (builder: WorkflowBuilder<T & {}, {}>) => WorkflowBuilder<S, F>
+  ) => Workflow<S, F>;
+
+  // Create a child workflow asynchronously
+  createScopeAsync: <S extends Record<string, any>, F extends Record<string, FlowSignature>>(
+    scopeBuilder: (builder: WorkflowBuilder<T & {}, {}>) => WorkflowBuilder<S, F>,
+    options?: BuildOptions
+  ) => Promise<Workflow<S, F>>;
+
+  // Work out the steps a flow, or the build when no flow is given, would run without running them
+  plan: (flowName?: keyof Flows & string) => ExecutionPlan;
+
+  // Read a container, building it and its dependencies first when the workflow was built lazily
+  get: <K extends keyof T & string>(stepName: K) => T[K];
+
+  // Read a container, building it and its dependencies asynchronously first when the workflow was built lazily
+  getAsync: <K extends keyof T & string>(stepName: K, options?: BuildOptions) => Promise<Awaited<T[K]>>;
+
+  // Resume a checkpointed run, skipping the steps that already completed
+  resume: (runId: string, options: ResumeOptions) => Promise<FlowExecutionResult>;
+
+  // Tear down all containers in reverse topological order
+  dispose: () => void;
+
+  // Tear down all containers in reverse topological order, awaiting asynchronous disposers
+  disposeAsync: () => Promise<void>;
+
+  // Recompute a container and its dependents, returns the recomputed container names
+  invalidate: (stepName: keyof T & string) => Array<keyof T & string>;
+
+  // Recompute a container and its dependents asynchronously
+  invalidateAsync: (stepName: keyof T & string, options?: BuildOptions) => Promise<Array<keyof T & string>>;
+
+  // Listen to flow and step lifecycle events, returns a function that removes the listener
+  on: <E extends keyof WorkflowEventMap>(event: E, listener: WorkflowEventListener<E>) => () => void;
+
+  // Remove a lifecycle event listener
+  off: <E extends keyof WorkflowEventMap>(event: E, listener: WorkflowEventListener<E>) => void;
+
+  // Listen to container changes made by builds, refreshes, invalidations and disposal, returns a function that removes the listener
+  subscribe: (listener: ContainerChangeListener<T>) => () => void;
+
+  // Listen to the changes of a single container, returns a function that removes the listener
+  subscribeTo: <K extends keyof T & string>(stepName: K, listener: (value: T[K]) => void) => () => void;
+
+  // Immutable snapshot of the containers, the same object is returned until a container changes
+  getSnapshot: () => WorkflowSnapshot<T>;
   
   // For type checking
   readonly steps: Record<string, StepImplementation<any>>;
@@ -0,0 +1,81 @@
+/**
+ * Wraps an AbortController and remembers the error that aborted it
+ * AbortSignal.reason is not available on every supported Node version,
+ * so the error is tracked here instead
+ */
+export class RunController {
+  private controller = new AbortController();
+  private abortError: unknown;
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get aborted(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  get error(): unknown {
+    return this.abortError;
+  }
+
+  /**
+   * Abort the run with the given error, later calls are ignored
+   */
+  abort(error: unknown): void {
+    if (this.aborted) {
+      return;
+    }
+    this.abortError = error;
+    this.controller.abort();
+  }
+
+  /**
+   * Throw the abort error if the run has been aborted
+   */
+  throwIfAborted(): void {
+    if (this.aborted) {
+      throw this.abortError;
+    }
+  }
+
+  /**
+   * Abort this run whenever the given signal aborts
+   * @returns Function that stops following the signal
+   */
+  follow(signal: AbortSignal, createError: () => unknown): () => void {
+    if (signal.aborted) {
+      this.abort(createError());
+      return () => {};
+    }
+
+    const onAbort = () => this.abort(createError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    return () => signal.removeEventListener('abort', onAbort);
+  }
+
+  /**
+   * Settle with the given value, or reject with the abort error as soon as the run is aborted
+   */
+  race<R>(value: Promise<R> | R): Promise<R> {
+    if (this.aborted) {
+      return Promise.reject(this.abortError);
+    }
+
+    return new Promise<R>((resolve, reject) => {
+      const onAbort = () => reject(this.abortError);
+      this.signal.addEventListener('abort', onAbort, { once: true });
+
+      Promise.resolve(value).then(
+        (result) => {
+          this.signal.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        (error) => {
+          this.signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Build the key a flow step result is cached under
+ * Keys are scoped to the flow and the step, so steps can share a cache without their keys colliding
+ */
+export function createCacheKey(flowName: string, stepName: string, key: string): string {
+  return JSON.stringify([flowName, stepName, key]);
+}
+
+/**
+ * Prefix shared by every cache key of a flow step
+ */
+export function createCacheKeyPrefix(flowName: string, stepName: string): string {
+  // Drop the closing quote and bracket of an empty key, leaving the opening quote of the key
+  return createCacheKey(flowName, stepName, '').slice(0, -2);
+}
+
+/**
+ * Check whether a cache entry has expired
+ */
+export function isExpired(expiresAt: number | undefined, now = Date.now()): boolean {
+  return expiresAt !== undefined && expiresAt <= now;
+}
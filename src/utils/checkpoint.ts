@@ -0,0 +1,150 @@
+import type { RunCheckpoint, StateStore } from '../types';
+import { CheckpointError } from '../errors';
+
+/**
+ * Find the first part of a value that does not survive a JSON round trip
+ * Plain objects, arrays, strings, finite numbers, booleans and null are accepted,
+ * undefined is accepted for the value itself and for object properties
+ * @returns The path of the rejected part and why it was rejected, or undefined when the value can be stored
+ */
+export function findUnserializable(
+  value: unknown,
+  path: string,
+  seen = new Set<unknown>()
+): { path: string; reason: string } | undefined {
+  if (value === null || value === undefined || typeof value === 'string' || typeof value === 'boolean') {
+    return undefined;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? undefined : { path, reason: `is ${value}` };
+  }
+  if (typeof value !== 'object') {
+    return { path, reason: `is a ${typeof value}` };
+  }
+  if (seen.has(value)) {
+    return { path, reason: 'is a circular reference' };
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  if (!Array.isArray(value) && prototype !== Object.prototype && prototype !== null) {
+    return { path, reason: `is an instance of ${value.constructor?.name ?? 'a class'}` };
+  }
+
+  seen.add(value);
+  const entries: Array<[string, unknown]> = Array.isArray(value)
+    ? value.map((item, index) => [`[${index}]`, item])
+    : Object.entries(value).map(([key, item]) => [`.${key}`, item]);
+
+  for (const [key, item] of entries) {
+    // Array holes and undefined items become null in JSON
+    if (Array.isArray(value) && item === undefined) {
+      return { path: `${path}${key}`, reason: 'is undefined' };
+    }
+    const problem = findUnserializable(item, `${path}${key}`, seen);
+    if (problem) {
+      return problem;
+    }
+  }
+  seen.delete(value);
+
+  return undefined;
+}
+
+/**
+ * Writes the progress of a flow run to a state store
+ * Saves are queued so checkpoints are written in the order steps complete
+ */
+export class RunCheckpointer {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private store: StateStore,
+    private runId: string,
+    private checkpoint: RunCheckpoint
+  ) {}
+
+  /**
+   * Names of the steps completed by the previous attempts of this run
+   */
+  get completedSteps(): string[] {
+    return this.checkpoint.completedSteps;
+  }
+
+  /**
+   * Results stored by the previous attempts of this run
+   */
+  get results(): Record<string, unknown> {
+    return this.checkpoint.results;
+  }
+
+  /**
+   * Write the checkpoint of a new run, rejecting inputs that cannot be stored
+   */
+  start(): Promise<void> {
+    const problem = findUnserializable(this.checkpoint.input, 'input');
+    if (problem) {
+      throw new CheckpointError(
+        `Input of flow "${this.checkpoint.flowName}" cannot be checkpointed: ${problem.path} ${problem.reason}`,
+        problem.path
+      );
+    }
+    return this.save();
+  }
+
+  /**
+   * Record the result of a completed step, rejecting results that cannot be stored
+   * Resolves once the checkpoint is written
+   */
+  record(stepName: string, result: unknown): Promise<void> {
+    const problem = findUnserializable(result, 'result');
+    if (problem) {
+      throw new CheckpointError(
+        `Result of step "${stepName}" cannot be checkpointed: ${problem.path} ${problem.reason}`,
+        problem.path,
+        stepName
+      );
+    }
+
+    this.checkpoint = {
+      ...this.checkpoint,
+      completedSteps: [...this.checkpoint.completedSteps, stepName],
+      results: { ...this.checkpoint.results, [stepName]: result }
+    };
+    return this.save();
+  }
+
+  /**
+   * Forget completed steps whose effects were undone by their compensation, so a resumed run runs them again
+   * Resolves once the checkpoint is written
+   */
+  forget(stepNames: string[]): Promise<void> {
+    if (stepNames.length === 0) {
+      return Promise.resolve();
+    }
+
+    const results = { ...this.checkpoint.results };
+    for (const stepName of stepNames) {
+      delete results[stepName];
+    }
+    this.checkpoint = {
+      ...this.checkpoint,
+      completedSteps: this.checkpoint.completedSteps.filter(stepName => !stepNames.includes(stepName)),
+      results
+    };
+    return this.save();
+  }
+
+  /**
+   * Delete the checkpoint of a run that completed, once the pending saves are written
+   */
+  async finish(): Promise<void> {
+    await this.pending;
+    await this.store.delete(this.runId);
+  }
+
+  private save(): Promise<void> {
+    const checkpoint = this.checkpoint;
+    this.pending = this.pending.then(() => this.store.save(this.runId, checkpoint));
+    return this.pending;
+  }
+}
@@ -91,3 +91,81 @@ export function topologicalSort(dependencies: Record<string, Array<string>>): st
   
   return result;
 }
+
+/**
+ * Collect a node and every node that depends on it, directly or transitively
+ * @param dependencies - Adjacency list representation of the dependency graph
+ * @param node - Node whose dependents are collected
+ * @returns The node followed by its dependents, in topological order
+ */
+export function collectDependents(dependencies: Record<string, Array<string>>, node: string): string[] {
+  const order = topologicalSort(dependencies);
+  const affected = new Set<string>([node]);
+
+  // Dependencies come first in topological order, so one pass reaches every dependent
+  for (const current of order) {
+    if ((dependencies[current] || []).some(dep => affected.has(dep))) {
+      affected.add(current);
+    }
+  }
+
+  return order.filter(current => affected.has(current));
+}
+
+/**
+ * Group the nodes of a directed graph by their dependency level
+ * Nodes with no dependencies are level 0
+ * Nodes that depend only on level 0 nodes are level 1, etc.
+ * @param dependencies - Adjacency list representation of the dependency graph
+ * @param order - Nodes to group, in topological order
+ * @returns Nodes of each level, in the given order
+ */
+export function groupByLevel(dependencies: Record<string, Array<string>>, order: string[]): string[][] {
+  const levels: string[][] = [];
+  const nodeLevels: Record<string, number> = {};
+
+  // Helper to determine a node's level
+  const getNodeLevel = (node: string): number => {
+    // If we've already calculated this node's level, return it
+    if (node in nodeLevels) {
+      return nodeLevels[node];
+    }
+  
+    // Get the node's dependencies
+    const deps = dependencies[node] || [];
+  
+    // If no dependencies, it's level 0
+    if (deps.length === 0) {
+      nodeLevels[node] = 0;
+      return 0;
+    }
+  
+    // Calculate the maximum level of dependencies, then add 1
+    let maxDepLevel = -1;
+    for (const dep of deps) {
+      // Recursively get the level of each dependency
+      const depLevel = getNodeLevel(dep);
+      maxDepLevel = Math.max(maxDepLevel, depLevel);
+    }
+  
+    // This node's level is one higher than its highest dependency
+    const level = maxDepLevel + 1;
+    nodeLevels[node] = level;
+    return level;
+  };
+
+  // Calculate levels for all nodes
+  for (const node of order) {
+    const level = getNodeLevel(node);
+  
+    // Ensure the levels array has enough entries
+    while (levels.length <= level) {
+      levels.push([]);
+    }
+  
+    // Add the node to its level
+    levels[level].push(node);
+  }
+
+  return levels;
+}
@@ -0,0 +1,36 @@
+import type { ContainerDisposer } from '../types';
+
+/**
+ * Find how a container is torn down: its registered disposer, or its own
+ * Symbol.asyncDispose / Symbol.dispose method
+ * Asynchronous teardown prefers Symbol.asyncDispose, synchronous teardown Symbol.dispose
+ * @returns A function that disposes the container, or undefined when it has nothing to release
+ */
+export function findDisposer(
+  container: unknown,
+  disposer: ContainerDisposer | undefined,
+  preferAsync: boolean
+): (() => unknown) | undefined {
+  if (disposer) {
+    return () => disposer(container);
+  }
+
+  if (container === null || (typeof container !== 'object' && typeof container !== 'function')) {
+    return undefined;
+  }
+
+  // The symbols are missing on runtimes without explicit resource management support
+  const symbols = [Symbol.asyncDispose, Symbol.dispose].filter(symbol => typeof symbol === 'symbol');
+  if (!preferAsync) {
+    symbols.reverse();
+  }
+
+  for (const symbol of symbols) {
+    const dispose = (container as any)[symbol];
+    if (typeof dispose === 'function') {
+      return () => dispose.call(container);
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,39 @@
+/**
+ * Minimal typed event emitter
+ * Errors thrown by listeners are ignored so observers cannot break a run
+ */
+export class EventEmitter<Events extends Record<string, any>> {
+  private listeners: { [E in keyof Events]?: Array<(event: Events[E]) => void> } = {};
+
+  /**
+   * Register a listener for an event
+   * @returns Function that removes the listener
+   */
+  on<E extends keyof Events>(event: E, listener: (event: Events[E]) => void): () => void {
+    (this.listeners[event] ??= []).push(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a previously registered listener
+   */
+  off<E extends keyof Events>(event: E, listener: (event: Events[E]) => void): void {
+    const listeners = this.listeners[event];
+    if (listeners) {
+      this.listeners[event] = listeners.filter(l => l !== listener);
+    }
+  }
+
+  /**
+   * Notify all listeners of an event
+   */
+  emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+    for (const listener of this.listeners[event] || []) {
+      try {
+        listener(payload);
+      } catch {
+        // Listener errors must not affect the run
+      }
+    }
+  }
+}
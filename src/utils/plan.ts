@@ -0,0 +1,57 @@
+import type { ExecutionPlan } from '../types';
+import { groupByLevel, topologicalSort } from './common';
+
+/**
+ * Work out how the steps of the build or of a flow would run, without running them
+ * @param dependencies - Dependency graph of the build or the flow
+ * @param stepNames - Steps that run, dependencies on other steps are satisfied before the run starts
+ * @param flowName - Flow the plan is for, not set for the build
+ */
+export function createExecutionPlan(
+  dependencies: Record<string, Array<string>>,
+  stepNames: string[],
+  flowName?: string
+): ExecutionPlan {
+  const runs = new Set(stepNames);
+  // Same order as the one execute runs the steps in
+  const order = topologicalSort(dependencies).filter(stepName => runs.has(stepName));
+
+  const stepDependencies: Record<string, Array<string>> = {};
+  for (const stepName of order) {
+    stepDependencies[stepName] = (dependencies[stepName] || []).filter(dep => runs.has(dep));
+  }
+
+  const dependencyChains: Record<string, string[]> = {};
+  // Longest chain of steps ending with each step
+  const longestChains: Record<string, string[]> = {};
+  let criticalPath: string[] = [];
+
+  // Dependencies come first in topological order, so their chains are known when a step is reached
+  for (const stepName of order) {
+    const transitive = new Set<string>();
+    let longest: string[] = [];
+
+    for (const dep of stepDependencies[stepName]) {
+      transitive.add(dep);
+      dependencyChains[dep].forEach(chained => transitive.add(chained));
+      if (longestChains[dep].length > longest.length) {
+        longest = longestChains[dep];
+      }
+    }
+
+    dependencyChains[stepName] = order.filter(chained => transitive.has(chained));
+    longestChains[stepName] = [...longest, stepName];
+    if (longestChains[stepName].length > criticalPath.length) {
+      criticalPath = longestChains[stepName];
+    }
+  }
+
+  return {
+    flowName,
+    order,
+    levels: groupByLevel(stepDependencies, order),
+    criticalPath,
+    criticalPathLength: criticalPath.length,
+    dependencyChains
+  };
+}
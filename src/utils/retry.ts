@@ -0,0 +1,107 @@
+import type { RetryPolicy } from '../types';
+import { isPromise } from './common';
+
+/**
+ * Calculate the delay before the next attempt of a failed step
+ * @param policy - Retry policy of the step
+ * @param attempt - The attempt that just failed, starting at 1
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  const baseDelay = policy.delayMs ?? 0;
+  let delay = policy.backoff === 'exponential'
+    ? baseDelay * Math.pow(policy.factor ?? 2, attempt - 1)
+    : baseDelay;
+
+  if (policy.maxDelayMs !== undefined) {
+    delay = Math.min(delay, policy.maxDelayMs);
+  }
+
+  if (policy.jitter) {
+    delay -= delay * Math.min(Math.max(policy.jitter, 0), 1) * Math.random();
+  }
+
+  return delay;
+}
+
+/**
+ * Decide whether a failed attempt should be retried
+ * @param policy - Retry policy of the step, if any
+ * @param attempt - The attempt that just failed, starting at 1
+ * @param error - The error thrown by the attempt
+ */
+export function shouldRetry(
+  policy: RetryPolicy | undefined,
+  attempt: number,
+  error: unknown
+): boolean {
+  if (!policy || attempt >= policy.maxAttempts) {
+    return false;
+  }
+  return policy.retryIf ? policy.retryIf(error) : true;
+}
+
+/**
+ * Run a synchronous function with a retry policy
+ * Backoff delays cannot be waited for synchronously, so retries happen immediately
+ * @param fn - Function to run, receives the attempt number starting at 1
+ * @param policy - Retry policy, a single attempt is made without one
+ */
+export function retrySync<R>(fn: (attempt: number) => R, policy?: RetryPolicy): R {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return fn(attempt);
+    } catch (error) {
+      if (!shouldRetry(policy, attempt, error)) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Run a possibly asynchronous function with a retry policy, waiting between attempts
+ * @param fn - Function to run, receives the attempt number starting at 1
+ * @param policy - Retry policy, a single attempt is made without one
+ * @param signal - Stops retrying once aborted, the last error is thrown
+ */
+export async function retryAsync<R>(
+  fn: (attempt: number) => Promise<R> | R,
+  policy?: RetryPolicy,
+  signal?: AbortSignal
+): Promise<R> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = fn(attempt);
+      return isPromise(result) ? await result : result;
+    } catch (error) {
+      if (!policy || signal?.aborted || !shouldRetry(policy, attempt, error)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(policy, attempt);
+      if (delay > 0) {
+        await wait(delay, signal);
+      }
+
+      if (signal?.aborted) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Wait for the given delay, resolving early if the signal aborts
+ */
+function wait(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, delay);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
@@ -0,0 +1,72 @@
+/**
+ * Run a task for every node of a dependency graph, starting each one as soon as
+ * its own dependencies have finished instead of waiting for whole levels
+ * @param order - Nodes in topological order, ready nodes are started in this order
+ * @param dependencies - Adjacency list of the graph, dependencies outside of order are ignored
+ * @param task - Task to run for each node
+ * @param concurrency - Maximum number of tasks running at the same time, at least one
+ * @returns Promise that resolves once every task finished, or rejects with the first task error
+ * once the tasks that were still running have settled
+ */
+export function runDependencyGraph(
+  order: string[],
+  dependencies: Record<string, Array<string>>,
+  task: (node: string) => Promise<void>,
+  concurrency = Infinity
+): Promise<void> {
+  const nodes = new Set(order);
+  const waiting = new Set(order);
+  const finished = new Set<string>();
+  const limit = Math.max(1, concurrency);
+  let running = 0;
+  let failure: { error: unknown } | undefined;
+
+  return new Promise<void>((resolve, reject) => {
+    const isReady = (node: string): boolean =>
+      (dependencies[node] || []).every(dep => !nodes.has(dep) || finished.has(dep));
+
+    const startReadyNodes = (): void => {
+      if (failure) {
+        return;
+      }
+
+      if (finished.size === nodes.size) {
+        resolve();
+        return;
+      }
+
+      for (const node of order) {
+        if (running >= limit) {
+          break;
+        }
+        if (!waiting.has(node) || !isReady(node)) {
+          continue;
+        }
+
+        waiting.delete(node);
+        running++;
+
+        task(node).then(
+          () => {
+            running--;
+            finished.add(node);
+            if (failure && running === 0) {
+              reject(failure.error);
+            }
+            startReadyNodes();
+          },
+          (error) => {
+            running--;
+            failure ??= { error };
+            // No task is started after a failure, and the ones still running are waited for
+            if (running === 0) {
+              reject(failure.error);
+            }
+          }
+        );
+      }
+    };
+
+    startReadyNodes();
+  });
+}
@@ -0,0 +1,62 @@
+import type { ResultSchema, SchemaIssue } from '../types';
+import { SchemaValidationError } from '../errors';
+
+/**
+ * Format the keys leading to part of a step result, as in "result.items[0].email"
+ */
+export function formatResultPath(path: Array<string | number>): string {
+  return path.reduce<string>((formatted, key) => typeof key === 'number' ? `${formatted}[${key}]` : `${formatted}.${key}`, 'result');
+}
+
+/**
+ * Read the issues reported by a parse method that threw
+ * Errors with an issues array, such as those of Zod and Standard Schema libraries, keep their paths,
+ * any other error becomes a single issue about the whole result
+ */
+function readIssues(error: unknown): SchemaIssue[] {
+  const issues = (error as { issues?: unknown } | null)?.issues;
+  if (Array.isArray(issues) && issues.length > 0) {
+    return issues.map(issue => ({
+      message: String(issue?.message ?? issue),
+      // Standard Schema allows path segments given as { key } objects
+      path: Array.isArray(issue?.path)
+        ? issue.path.map((segment: any) => {
+          const key = segment !== null && typeof segment === 'object' ? segment.key : segment;
+          return typeof key === 'number' ? key : String(key);
+        })
+        : []
+    }));
+  }
+  return [{ message: error instanceof Error ? error.message : String(error), path: [] }];
+}
+
+/**
+ * Check a step result against its schema
+ * @returns The validated result, which is the value returned by parse for parse objects
+ * @throws SchemaValidationError when the result does not match
+ */
+export function validateResult<T>(schema: ResultSchema<T>, value: unknown, stepName: string): T {
+  let issues: SchemaIssue[];
+
+  if (typeof schema === 'function') {
+    if (schema(value)) {
+      return value;
+    }
+    issues = [{ message: 'Rejected by the type guard', path: [] }];
+  } else {
+    try {
+      return schema.parse(value);
+    } catch (error) {
+      issues = readIssues(error);
+    }
+  }
+
+  const [{ message, path }] = issues;
+  const formattedPath = formatResultPath(path);
+  throw new SchemaValidationError(
+    `Result of step "${stepName}" does not match its schema at ${formattedPath}: ${message}`,
+    stepName,
+    formattedPath,
+    issues
+  );
+}
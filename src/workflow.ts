@@ -1,280 +1,1541 @@
 import { 
+  AsyncExecuteOptions,
+  BuildOptions,
+  CacheEntry,
+  CompensationReport,
+  ContainerChangeListener,
+  ContainerDisposer,
+  ErrorPolicy,
+  ExecuteOptions,
+  ExecutionPlan,
   FlowDefinition, 
-  FlowResults, 
+  FlowExecutionResult,
+  FlowInputArgs,
+  FlowSignature,
+  MapItemReport,
+  ResultCache,
+  ResumeOptions,
+  RunCheckpoint,
+  StepExecution,
   StepImplementation, 
-  Workflow 
+  StepMiddleware,
+  StepMiddlewareContext,
+  StepReport,
+  StepStartEvent,
+  Workflow,
+  WorkflowEventListener,
+  WorkflowEventMap,
+  WorkflowSnapshot
 } from './types';
-import { isPromise, topologicalSort } from './utils/common';
+import { WorkflowBuilder } from './builders/WorkflowBuilder';
+import {
+  AsyncStepError,
+  CheckpointError,
+  ContainerDisposeError,
+  MapStepError,
+  SchemaValidationError,
+  WorkflowCancelledError,
+  WorkflowTimeoutError
+} from './errors';
+import { RunController } from './utils/abort';
+import { LruResultCache } from './stores/LruResultCache';
+import { createCacheKey, createCacheKeyPrefix, isExpired } from './utils/cache';
+import { RunCheckpointer } from './utils/checkpoint';
+import { collectDependents, groupByLevel, isPromise, topologicalSort } from './utils/common';
+import { createExecutionPlan } from './utils/plan';
+import { findDisposer } from './utils/dispose';
+import { EventEmitter } from './utils/events';
+import { retryAsync, retrySync } from './utils/retry';
+import { runDependencyGraph } from './utils/scheduler';
+import { validateResult } from './utils/schema';
 
 /**
  * Concrete implementation of a workflow that maintains container state
  */
-export class WorkflowInstance<T> implements Workflow<T> {
+export class WorkflowInstance<
+  T,
+  Flows extends Record<string, FlowSignature> = Record<string, FlowSignature>
+> implements Workflow<T, Flows> {
   // Directly expose containers as public property
   public containers: { [K in keyof T]: T[K] } = {} as { [K in keyof T]: T[K] };
+
+  private events = new EventEmitter<WorkflowEventMap>();
+
+  // Default cache of the flow steps configured with withCache
+  private resultCache: ResultCache = new LruResultCache();
+
+  // Container changes, notified to all subscribers and to the subscribers of each container
+  private changes = new EventEmitter<{ change: Array<keyof T & string> }>();
+  private containerChanges = new EventEmitter<Record<string, unknown>>();
+  private version = 0;
+  private snapshot?: WorkflowSnapshot<T>;
+  // Stops forwarding the container changes of the parent workflow to the subscribers of a scope
+  private unfollowParent?: () => void;
+
+  // Steps of a lazily built workflow whose containers were not built yet, and the ones being built asynchronously
+  private pendingSteps = new Set<string>();
+  private lazyBuilds = new Map<string, Promise<void>>();
   
   constructor(
     public readonly steps: Record<string, StepImplementation<any>>,
     public readonly dependencies: Record<string, Array<keyof T>>,
     public readonly flows: Record<string, FlowDefinition>,
-    private buildFlowName: string
-  ) {}
+    private buildFlowName: string,
+    private disposers: Record<string, ContainerDisposer> = {},
+    parentContainers?: Record<string, any>,
+    private middleware: StepMiddleware[] = []
+  ) {
+    // Scope containers fall back to the containers of the parent workflow, which are shared rather than copied
+    if (parentContainers) {
+      this.containers = Object.create(parentContainers);
+    }
+  }
   
   /**
    * Force refresh of all containers by re-executing the build flow
    * Useful for React components that need to re-execute hooks
+   * The containers are only replaced once every step succeeded
    */
   refresh(): void {
     try {
       // Re-execute the build flow
-      this.execute(this.buildFlowName);
+      this._executeFlow(this.buildFlowName);
     } catch (error) {
       throw error;
     }
   }
 
+  /**
+   * Force refresh of all containers by re-executing the build flow asynchronously
+   * The new containers are built aside and swapped in at once when the build succeeds,
+   * so other runs never see a mix of old and new containers and a failed refresh keeps the previous ones
+   * Options can cancel the refresh through an AbortSignal and set time limits
+   */
+  async refreshAsync(options?: BuildOptions): Promise<void> {
+    await this._executeFlowAsync(this.buildFlowName, undefined, options);
+  }
+
+  /**
+   * Recompute a container and every container that depends on it, directly or transitively
+   * Unrelated containers are left untouched
+   * Returns the names of the recomputed containers in the order they were recomputed
+   */
+  invalidate(stepName: keyof T & string): Array<keyof T & string> {
+    const affected = this.collectInvalidatedSteps(stepName);
+    this._executeFlow(this.buildFlowName, undefined, {}, affected);
+    return affected;
+  }
+
+  /**
+   * Recompute a container and its dependents asynchronously
+   * Options can cancel the run through an AbortSignal, set time limits and the concurrency cap
+   */
+  async invalidateAsync(stepName: keyof T & string, options?: BuildOptions): Promise<Array<keyof T & string>> {
+    const affected = this.collectInvalidatedSteps(stepName);
+    await this._executeFlowAsync(this.buildFlowName, undefined, options, affected);
+    return affected;
+  }
+
+  /**
+   * Create a child workflow whose steps can depend on the containers of this workflow
+   * The parent containers are shared with the scope and never re-run, while the scope
+   * builds, runs flows and disposes only its own containers
+   */
+  createScope<S extends Record<string, any>, F extends Record<string, FlowSignature>>(
+    scopeBuilder: (builder: WorkflowBuilder<T & {}, {}>) => WorkflowBuilder<S, F>
+  ): Workflow<S, F> {
+    return this.followedBy(scopeBuilder(this.createScopeBuilder()).build());
+  }
+
+  /**
+   * Create a child workflow asynchronously, allowing the scope steps to be async functions
+   * Options can cancel the build through an AbortSignal and set time limits
+   */
+  createScopeAsync<S extends Record<string, any>, F extends Record<string, FlowSignature>>(
+    scopeBuilder: (builder: WorkflowBuilder<T & {}, {}>) => WorkflowBuilder<S, F>,
+    options?: BuildOptions
+  ): Promise<Workflow<S, F>> {
+    return scopeBuilder(this.createScopeBuilder()).buildAsync(options).then(scope => this.followedBy(scope));
+  }
+
+  /**
+   * Work out the steps a flow, or the build when no flow is given, would run without running any of them
+   * Returns the execution order, the parallel levels, the critical path and the dependency chain of every step
+   */
+  plan(flowName?: keyof Flows & string): ExecutionPlan {
+    if (flowName !== undefined && (!(flowName in this.flows) || flowName === this.buildFlowName)) {
+      throw new Error(`Flow "${flowName}" does not exist`);
+    }
+    const flow = this.flows[flowName ?? this.buildFlowName];
+    return createExecutionPlan(flow.dependencies, Object.keys(flow.steps), flowName);
+  }
+
+  /**
+   * Read a container
+   * When the workflow was built lazily, the container and the dependencies it is missing are built first
+   * and kept, steps returning a Promise cannot be built this way and require getAsync
+   */
+  get<K extends keyof T & string>(stepName: K): T[K] {
+    if (!(stepName in this.containers)) {
+      throw new Error(`Step "${stepName}" does not exist`);
+    }
+
+    // Missing containers are built one per run, so each one is committed before its dependents read it
+    for (const pendingStep of this.pendingSteps.has(stepName) ? this.collectPendingSteps(stepName) : []) {
+      // A container that is still building asynchronously is not built a second time
+      if (!this.lazyBuilds.has(pendingStep)) {
+        try {
+          this._executeFlow(this.buildFlowName, undefined, {}, [pendingStep]);
+          continue;
+        } catch (error) {
+          if (!((error as { originalError?: unknown }).originalError instanceof AsyncStepError)) {
+            throw error;
+          }
+        }
+      }
+      throw new AsyncStepError(
+        `Container "${stepName}" cannot be built synchronously because step "${pendingStep}" is asynchronous. Use getAsync("${stepName}") instead.`,
+        pendingStep
+      );
+    }
+
+    return this.containers[stepName];
+  }
+
+  /**
+   * Read a container, building it and the dependencies it is missing asynchronously when the workflow was built lazily
+   * Independent dependencies are built in parallel, and concurrent reads share the builds in progress
+   * Options can cancel the build through an AbortSignal and set time limits
+   */
+  async getAsync<K extends keyof T & string>(stepName: K, options?: BuildOptions): Promise<Awaited<T[K]>> {
+    if (!(stepName in this.containers)) {
+      throw new Error(`Step "${stepName}" does not exist`);
+    }
+
+    await this.buildPendingStep(stepName, options);
+    return this.containers[stepName] as Awaited<T[K]>;
+  }
+
+  /**
+   * Internal method to switch to lazy building: no step is run until its container is read
+   * Containers that were not built yet are non-enumerable accessors that build them on first read,
+   * so spreading or listing the containers does not build them
+   * @internal
+   */
+  _registerLazyContainers(): void {
+    const containers = this.containers;
+    const pendingSteps = this.pendingSteps;
+
+    for (const stepName of Object.keys(this.steps)) {
+      pendingSteps.add(stepName);
+      Object.defineProperty(containers, stepName, {
+        configurable: true,
+        enumerable: false,
+        get: () => this.get(stepName as keyof T & string),
+        // Writing the built container replaces the accessor with a plain property,
+        // on the containers of a scope when they shadow it
+        set(this: object, value: unknown) {
+          if (this === containers) {
+            pendingSteps.delete(stepName);
+          }
+          Object.defineProperty(this, stepName, { value, writable: true, enumerable: true, configurable: true });
+        }
+      });
+    }
+  }
+
+  /**
+   * Internal method to notify the subscribers of a scope of the changes of the containers it inherits
+   * Forwarding stops when the scope is disposed
+   * @internal
+   */
+  _followParent(subscribeToParent: (listener: ContainerChangeListener<any>) => () => void): void {
+    this.unfollowParent = subscribeToParent(changed => this.notifyChanges(changed));
+  }
+
+  /**
+   * Resume a run checkpointed through the store option of executeAsync
+   * Steps that completed before are not run again, their stored results are fed into the context
+   * of the steps that still have to run
+   */
+  async resume(runId: string, options: ResumeOptions): Promise<FlowExecutionResult> {
+    const checkpoint = await options.store.load(runId);
+    if (!checkpoint) {
+      throw new Error(`Run "${runId}" has no checkpoint to resume from`);
+    }
+    return this._executeFlowAsync(checkpoint.flowName, checkpoint.input, { ...options, runId }, undefined, checkpoint);
+  }
+
+  /**
+   * Tear down all containers in reverse topological order, so dependents are released before their dependencies
+   * Containers are disposed by their registered disposer or their Symbol.dispose method
+   * Errors are collected and raised together as a ContainerDisposeError once every container was disposed
+   */
+  dispose(): void {
+    this.disposeContainers(this.releaseContainers());
+  }
+
+  /**
+   * Tear down all containers asynchronously in reverse topological order
+   * Containers are disposed by their registered disposer or their Symbol.asyncDispose or Symbol.dispose method
+   */
+  async disposeAsync(): Promise<void> {
+    await this.disposeContainersAsync(this.releaseContainers());
+  }
+
+  /**
+   * Listen to flow and step lifecycle events
+   * Returns a function that removes the listener
+   */
+  on<E extends keyof WorkflowEventMap>(event: E, listener: WorkflowEventListener<E>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Remove a lifecycle event listener
+   */
+  off<E extends keyof WorkflowEventMap>(event: E, listener: WorkflowEventListener<E>): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Listen to container changes made by builds, refreshes, invalidations and disposal
+   * The listener receives the names of the changed containers, and can be passed to useSyncExternalStore
+   * Defined as a property so it can be passed around without binding it
+   */
+  subscribe = (listener: ContainerChangeListener<T>): (() => void) => {
+    return this.changes.on('change', listener);
+  };
+
+  /**
+   * Listen to the changes of a single container, the listener receives its new value
+   * Subscribers of a container are not notified when other containers change
+   */
+  subscribeTo = <K extends keyof T & string>(stepName: K, listener: (value: T[K]) => void): (() => void) => {
+    return this.containerChanges.on(stepName, listener as (value: unknown) => void);
+  };
+
+  /**
+   * Immutable snapshot of the containers with its version, for useSyncExternalStore
+   * The same object is returned until a container changes, and unchanged containers keep their identity,
+   * so components selecting a container only re-render when that container changed
+   */
+  getSnapshot = (): WorkflowSnapshot<T> => {
+    // Scopes include the containers they inherit from their parent, whose changes they are notified of
+    this.snapshot ??= Object.freeze({
+      version: this.version,
+      containers: Object.freeze(this.readContainers()) as T
+    });
+    return this.snapshot;
+  };
+
   /**
    * Execute a flow synchronously
    * Returns the flow step results without modifying containers
+   * Options can set the error policy used when a step fails
    */
-  execute(flowName: string): { results: FlowResults; success: boolean } {
+  execute<F extends keyof Flows & string>(
+    flowName: F,
+    ...args: FlowInputArgs<Flows[F]['input'], ExecuteOptions>
+  ): FlowExecutionResult<Flows[F]['results']> {
+    const [input, options] = args as [unknown, ExecuteOptions?];
+    return this._executeFlow(flowName, input, options);
+  }
+
+  /**
+   * Execute a flow asynchronously, starting each step as soon as its dependencies completed
+   * Returns a Promise that resolves to the flow step results
+   * Options can cancel the run through an AbortSignal, set time limits, the error policy
+   * and the maximum number of steps running at the same time
+   */
+  executeAsync<F extends keyof Flows & string>(
+    flowName: F,
+    ...args: FlowInputArgs<Flows[F]['input'], AsyncExecuteOptions>
+  ): Promise<FlowExecutionResult<Flows[F]['results']>> {
+    const [input, options] = args as [unknown, AsyncExecuteOptions?];
+    return this._executeFlowAsync(flowName, input, options);
+  }
+
+  /**
+   * Internal method to execute any flow, including the build flow, synchronously
+   * Only the given steps are run when stepNames is set
+   * @internal
+   */
+  _executeFlow(
+    flowName: string,
+    input?: unknown,
+    options: ExecuteOptions = {},
+    stepNames?: string[]
+  ): FlowExecutionResult {
     if (!(flowName in this.flows)) {
       throw new Error(`Flow "${flowName}" does not exist`);
     }
   
     const flow = this.flows[flowName];
-    const executionOrder = this.calculateFlowExecutionOrder(flowName);
+    const executionOrder = this.calculateFlowExecutionOrder(flowName, stepNames);
     const context: Record<string, any> = {};
     const results: Record<string, any> = {};
+    const attempts: Record<string, number> = {};
+    const steps: Record<string, StepReport> = {};
+    const items: Record<string, MapItemReport[]> = {};
+    const isBuild = flowName === this.buildFlowName;
+    // Builds always fail fast, so a failed step never commits a partial build
+    const errorPolicy = isBuild ? 'failFast' : options.errorPolicy ?? 'failFast';
+    // Every step of the run reads the containers as they were when it started
+    const containers = this.readContainers();
+    // Synchronous runs cannot be cancelled, steps receive a signal that never aborts
+    const signal = new AbortController().signal;
+    const stepLevels = this.indexStepLevels(this.groupStepsByLevel(flow, executionOrder));
+    const flowStartedAt = Date.now();
 
-    // Execute flow steps
-    for (const stepName of executionOrder) {
-      // Skip steps that don't have actions defined
-      if (!(stepName in flow.steps)) {
-        continue;
-      }
-    
-      try {
-        // Special handling for the build flow: execute the actual step implementation
-        if (flowName === this.buildFlowName) {
-          const inputData: Record<string, any> = {};
-          const deps = this.dependencies[stepName] || [];
-        
-          for (const dep of deps) {
-            const depStr = String(dep);
-            inputData[depStr] = this.containers[depStr as keyof T];
+    this.events.emit('flowStart', { flowName, isBuild });
+
+    try {
+      // Execute flow steps
+      for (const stepName of executionOrder) {
+        // Skip steps that don't have actions defined
+        if (!(stepName in flow.steps)) {
+          continue;
+        }
+
+        // Skip steps whose dependencies failed when the policy asks for it
+        const failedDependency = this.findFailedDependency(flow, stepName, steps, errorPolicy);
+        if (failedDependency) {
+          steps[stepName] = { status: 'skipped', failedDependency };
+          continue;
+        }
+
+        const stepEvent = { flowName, isBuild, stepName, level: stepLevels[stepName] };
+        const stepStartedAt = Date.now();
+      
+        try {
+          // Steps whose when condition is not met are reported as skipped
+          if (!this.isConditionMet(flowName, stepName, containers, context, input)) {
+            steps[stepName] = { status: 'skipped', skippedByCondition: true };
+            continue;
           }
-        
-          const stepResult = this.steps[stepName](inputData);
-        
+
+          this.events.emit('stepStart', stepEvent);
+
+          // Cached steps reuse the result stored for their cache key instead of running again
+          const cached = this.lookupCache(flowName, stepName, containers, context, input);
+          if (cached?.entry) {
+            context[stepName] = cached.entry.value;
+            results[stepName] = cached.entry.value;
+            steps[stepName] = { status: 'succeeded', cache: 'hit' };
+            this.emitCacheHit(stepEvent, stepStartedAt, cached.entry.value);
+            continue;
+          }
+
+          // Retries happen immediately as backoff delays cannot be awaited synchronously
+          // Map steps retry each of their items on its own
+          const rawResult = flow.steps[stepName].map
+            ? this.runMapStep(flowName, stepName, containers, context, input, signal, attempts, items)
+            : retrySync((attempt) => {
+              attempts[stepName] = attempt;
+              return this.runStep(flowName, stepName, containers, context, input, { signal, attempt });
+            }, flow.steps[stepName].retry);
+          
           // Check if the step returned a Promise
-          if (isPromise(stepResult)) {
-            throw new Error(`Step "${stepName}" returned a Promise, but execute requires synchronous execution. Use executeAsync instead.`);
+          if (isPromise(rawResult)) {
+            // A lazy read builds a single container from committed dependencies, so the step keeps building
+            // for getAsync. Other Promises are dropped, and their rejection is handled here rather than
+            // becoming an unhandled rejection
+            if (isBuild && executionOrder.length === 1 && this.pendingSteps.has(stepName)) {
+              this.adoptLazyBuild(stepName, rawResult);
+            } else {
+              Promise.resolve(rawResult).catch(() => {});
+            }
+            throw new AsyncStepError(isBuild
+              ? `Step "${stepName}" returned a Promise, but execute requires synchronous execution. Use executeAsync instead.`
+              : `Flow action for "${stepName}" returned a Promise, but execute requires synchronous execution. Use executeAsync instead.`, stepName);
           }
-        
-          // Store the result in containers
-          this.containers[stepName as keyof T] = stepResult;
-        
-          // Also store in context and results
+
+          // Results are validated once the step completed, before anything reads them
+          const stepResult = this.validateStepResult(flowName, stepName, rawResult);
+          
+          // Store the result in context and results
+          // Note: Normal flows do not modify the container, build results are committed once the run completes
           context[stepName] = stepResult;
           results[stepName] = stepResult;
-        } 
-          // Normal flow execution
-        else {
-          const container = this.containers[stepName as keyof T];
-          const { action } = flow.steps[stepName];
-        
-          // Execute the flow action with the container and context
-          const actionResult = action(container, context);
-        
-          // Check if the action returned a Promise
-          if (isPromise(actionResult)) {
-            throw new Error(`Flow action for "${stepName}" returned a Promise, but execute requires synchronous execution. Use executeAsync instead.`);
+          steps[stepName] = cached ? { status: 'succeeded', cache: 'miss' } : { status: 'succeeded' };
+          if (cached) {
+            this.storeCachedResult(flowName, stepName, cached.key, stepResult);
           }
-        
-          // Store the result in context and results
-          // Note: This does not modify the container
-          context[stepName] = actionResult;
-          results[stepName] = actionResult;
+
+          this.events.emit('stepSuccess', {
+            ...stepEvent,
+            durationMs: Date.now() - stepStartedAt,
+            attempts: attempts[stepName],
+            result: stepResult,
+            ...(cached && { cache: 'miss' as const })
+          });
+        } catch (error) {
+          this.events.emit('stepError', {
+            ...stepEvent,
+            durationMs: Date.now() - stepStartedAt,
+            attempts: attempts[stepName] ?? 0,
+            error
+          });
+
+          // Schema violations are kept as they are so callers can read the invalid path
+          const stepError = error instanceof SchemaValidationError
+            ? error
+            : this.createStepError(stepName, error, attempts[stepName]);
+          if (errorPolicy === 'failFast') {
+            throw stepError;
+          }
+          steps[stepName] = { status: 'failed', error: stepError };
+        }
+      }
+    } catch (error) {
+      // Undo the steps that completed before the failure
+      (error as any).compensations = this.compensate(flow, executionOrder, steps, containers, context, input);
+      if (isBuild) {
+        // The containers built before the failure are never committed, so they are released here
+        // Disposal errors are kept on the run error, which stays the error that is thrown
+        try {
+          this.disposeContainers(this.getUncommittedResults(results));
+        } catch (disposeError) {
+          (error as any).disposeErrors = (disposeError as ContainerDisposeError).errors;
         }
-      } catch (error) {
-        const errorMessage = `Step "${stepName}" failed: ${error instanceof Error ? error.message : String(error)}`;
-        const finalError = new Error(errorMessage);
-        (finalError as any).originalError = error;
-        throw finalError;
       }
+      this.events.emit('flowEnd', { flowName, isBuild, durationMs: Date.now() - flowStartedAt, success: false, error });
+      throw error;
+    }
+
+    // Swap the new build results into the containers at once, a failed run leaves them untouched
+    const replaced = isBuild ? this.commitContainers(results) : {};
+    if (isBuild) {
+      // Cached flow results computed from the previous containers are stale
+      this.clearCachedResults(Object.keys(results));
     }
+
+    const success = !Object.values(steps).some(report => report.status === 'failed');
+    const compensations = success ? {} : this.compensate(flow, executionOrder, steps, containers, context, input);
+    this.events.emit('flowEnd', { flowName, isBuild, durationMs: Date.now() - flowStartedAt, success });
+
+    // Tear down the containers replaced by a refresh or invalidation once the new ones are in place
+    this.disposeContainers(replaced);
   
     return {
       results,
-      success: true
+      success,
+      attempts,
+      steps,
+      compensations,
+      items
     };
   }
 
   /**
-   * Execute a flow asynchronously with parallel execution of independent steps
-   * Returns a Promise that resolves to the flow step results
+   * Internal method to execute any flow, including the build flow, asynchronously
+   * Only the given steps are run when stepNames is set
+   * Steps completed in a previous attempt of the run are restored from checkpoint when resuming
+   * @internal
    */
-  async executeAsync(flowName: string): Promise<{ results: FlowResults; success: boolean }> {
+  async _executeFlowAsync(
+    flowName: string,
+    input?: unknown,
+    options: AsyncExecuteOptions = {},
+    stepNames?: string[],
+    checkpoint?: RunCheckpoint
+  ): Promise<FlowExecutionResult> {
     if (!(flowName in this.flows)) {
       throw new Error(`Flow "${flowName}" does not exist`);
     }
   
     const flow = this.flows[flowName];
-    const executionOrder = this.calculateFlowExecutionOrder(flowName);
+    const executionOrder = this.calculateFlowExecutionOrder(flowName, stepNames);
     const context: Record<string, any> = {};
     const results: Record<string, any> = {};
+    const attempts: Record<string, number> = {};
+    const steps: Record<string, StepReport> = {};
+    const items: Record<string, MapItemReport[]> = {};
+    const isBuild = flowName === this.buildFlowName;
+    // Builds always fail fast, so a failed step never commits a partial build
+    const errorPolicy = isBuild ? 'failFast' : options.errorPolicy ?? 'failFast';
+
+    // Checkpoint the results of the run when a state store is given
+    const checkpointer = this.createCheckpointer(flowName, input, options, checkpoint);
+
+    // Flow steps of a lazily built workflow act on containers that may have to be built asynchronously first
+    // The build is not checkpointed with the run and keeps failing fast
+    if (!isBuild && this.pendingSteps.size > 0) {
+      const buildOptions = { signal: options.signal, stepTimeoutMs: options.stepTimeoutMs };
+      await Promise.all(executionOrder.map(stepName => this.buildPendingStep(stepName, buildOptions)));
+    }
+
+    // Every step of the run reads the containers as they were when it started,
+    // so a refresh committed while the run is in progress does not mix generations
+    const containers = this.readContainers();
   
-    // Group steps by their level of dependencies
-    const levelGroups = this.groupStepsByLevel(flow, executionOrder);
+    // Levels are only reported in events, steps do not wait for whole levels
+    const stepLevels = this.indexStepLevels(this.groupStepsByLevel(flow, executionOrder));
+    const flowStartedAt = Date.now();
+
+    this.events.emit('flowStart', { flowName, isBuild });
+
+    // Abort the run when the caller's signal aborts or the flow time limit is reached
+    const run = new RunController();
+    const unfollow = options.signal
+      ? run.follow(options.signal, () => new WorkflowCancelledError(`Flow "${flowName}" was cancelled`, options.signal?.reason))
+      : () => {};
+    const { timeoutMs } = options;
+    const flowTimer = timeoutMs !== undefined
+      ? setTimeout(() => run.abort(new WorkflowTimeoutError(`Flow "${flowName}" timed out after ${timeoutMs}ms`, timeoutMs)), timeoutMs)
+      : undefined;
+    let failure: { error: unknown } | undefined;
   
-    // Execute each level in parallel, waiting for all steps in a level to complete
-    // before moving to the next level
-    for (const levelSteps of levelGroups) {
-      // Create an array of promises for all steps at this level
-      const levelPromises = levelSteps.map(async (stepName) => {
+    try {
+      if (checkpointer && !checkpoint) {
+        await checkpointer.start();
+      }
+
+      // Start each step as soon as its own dependencies completed, instead of
+      // waiting for every step of the previous level
+      await runDependencyGraph(executionOrder, flow.dependencies, async (stepName) => {
         // Skip steps that don't have actions defined
         if (!(stepName in flow.steps)) {
           return;
         }
+
+        // Steps completed before the run was resumed are not run again
+        if (checkpointer?.completedSteps.includes(stepName)) {
+          context[stepName] = checkpointer.results[stepName];
+          results[stepName] = checkpointer.results[stepName];
+          steps[stepName] = { status: 'succeeded', restored: true };
+          return;
+        }
+
+        // Steps that have not started yet are not started once the run is aborted
+        run.throwIfAborted();
+
+        // Skip steps whose dependencies failed when the policy asks for it
+        const failedDependency = this.findFailedDependency(flow, stepName, steps, errorPolicy);
+        if (failedDependency) {
+          steps[stepName] = { status: 'skipped', failedDependency };
+          return;
+        }
+
+        const stepTimeoutMs = flow.steps[stepName].timeoutMs ?? options.stepTimeoutMs;
+
+        const stepEvent = { flowName, isBuild, stepName, level: stepLevels[stepName] };
+        const stepStartedAt = Date.now();
+        // Attempt still running when the run was aborted
+        const interrupted: { attempt?: Promise<unknown> } = {};
       
         try {
-          // Special handling for the build flow: execute the actual step implementation
-          if (flowName === this.buildFlowName) {
-            const inputData: Record<string, any> = {};
-            const deps = this.dependencies[stepName] || [];
-          
-            for (const dep of deps) {
-              const depStr = String(dep);
-              inputData[depStr] = this.containers[depStr as keyof T];
-            }
-          
-            let stepResult = this.steps[stepName](inputData);
-          
-            // Await the result if it's a Promise
-            if (isPromise(stepResult)) {
-              stepResult = await stepResult;
-            }
-          
-            // Store the result in containers
-            this.containers[stepName as keyof T] = stepResult;
-          
-            return {
-              stepName,
-              result: stepResult
-            };
+          // Steps whose when condition is not met are reported as skipped
+          if (!this.isConditionMet(flowName, stepName, containers, context, input)) {
+            steps[stepName] = { status: 'skipped', skippedByCondition: true };
+            return;
           }
-            // Normal flow execution
-          else {
-            const container = this.containers[stepName as keyof T];
-            const { action } = flow.steps[stepName];
+
+          this.events.emit('stepStart', stepEvent);
+
+          // Cached steps reuse the result stored for their cache key instead of running again
+          const cached = this.lookupCache(flowName, stepName, containers, context, input);
+          if (cached?.entry) {
+            await checkpointer?.record(stepName, cached.entry.value);
+            context[stepName] = cached.entry.value;
+            results[stepName] = cached.entry.value;
+            steps[stepName] = { status: 'succeeded', cache: 'hit' };
+            this.emitCacheHit(stepEvent, stepStartedAt, cached.entry.value);
+            return;
+          }
+
+          // Retry failed attempts, waiting for the backoff delay between them
+          // Map steps retry each of their items on its own
+          const rawResult = flow.steps[stepName].map
+            ? await this.runMapStepAsync(flowName, stepName, containers, context, input, run, stepTimeoutMs, attempts, items)
+            : await retryAsync((attempt) => {
+              attempts[stepName] = attempt;
+              return this.runStepAsync(flowName, stepName, containers, context, input, run, { attempt }, stepTimeoutMs, interrupted);
+            }, flow.steps[stepName].retry, run.signal);
+
+          // Results are validated once the step completed, before anything reads them
+          const stepResult = this.validateStepResult(flowName, stepName, rawResult);
+
+          // Checkpoint the result before dependents start, so a resumed run does not repeat this step
+          await checkpointer?.record(stepName, stepResult);
           
-            // Execute the flow action with the container and context
-            let actionResult = action(container, context);
+          steps[stepName] = cached ? { status: 'succeeded', cache: 'miss' } : { status: 'succeeded' };
+          if (cached) {
+            this.storeCachedResult(flowName, stepName, cached.key, stepResult);
+          }
+
+          this.events.emit('stepSuccess', {
+            ...stepEvent,
+            durationMs: Date.now() - stepStartedAt,
+            attempts: attempts[stepName],
+            result: stepResult,
+            ...(cached && { cache: 'miss' as const })
+          });
           
-            // Await the result if it's a Promise
-            if (isPromise(actionResult)) {
-              actionResult = await actionResult;
+          // Store in context and results before dependents are started
+          context[stepName] = stepResult;
+          results[stepName] = stepResult;
+        } catch (error) {
+          this.events.emit('stepError', {
+            ...stepEvent,
+            durationMs: Date.now() - stepStartedAt,
+            attempts: attempts[stepName] ?? 0,
+            error
+          });
+
+          // An aborted run rethrows the error that aborted it, once the interrupted attempt settled:
+          // a step that completes anyway is compensated with the others
+          if (run.aborted) {
+            if (interrupted.attempt) {
+              await this.settleInterruptedStep(flowName, stepName, interrupted.attempt, context, steps);
             }
-          
-            return {
-              stepName,
-              result: actionResult
-            };
+            throw run.error;
           }
-        } catch (error) {
-          const errorMessage = `Step "${stepName}" failed: ${error instanceof Error ? error.message : String(error)}`;
-          const finalError = new Error(errorMessage);
-          (finalError as any).originalError = error;
-          throw finalError;
+
+          // Step timeouts, checkpoint errors and schema violations are kept as they are so callers can tell them apart
+          const stepError = error instanceof WorkflowTimeoutError
+            || error instanceof CheckpointError
+            || error instanceof SchemaValidationError
+            ? error
+            : this.createStepError(stepName, error, attempts[stepName]);
+          if (errorPolicy !== 'failFast') {
+            steps[stepName] = { status: 'failed', error: stepError };
+            return;
+          }
+
+          // Fail fast by aborting the steps that are still running
+          run.abort(stepError);
+          throw stepError;
         }
-      });
-    
-      // Wait for all steps at this level to complete
-      const levelResults = await Promise.all(levelPromises);
-    
-      // Process results from this level
-      for (const item of levelResults) {
-        if (item) {
-          const { stepName, result } = item;
-        
-          // Store in context and results
-          context[stepName] = result;
-          results[stepName] = result;
+      }, options.concurrency);
+    } catch (error) {
+      failure = { error };
+    } finally {
+      clearTimeout(flowTimer);
+      unfollow();
+    }
+
+    if (failure) {
+      const { error } = failure;
+      // Undo the steps that completed before the failure
+      const failureCompensations = await this.compensateAsync(flow, executionOrder, steps, containers, context, input);
+      (error as any).compensations = failureCompensations;
+      await this.forgetCompensatedSteps(checkpointer, failureCompensations);
+      if (isBuild) {
+        // The containers built before the failure are never committed, so they are released here
+        // Disposal errors are kept on the run error, which stays the error that is thrown
+        try {
+          await this.disposeContainersAsync(this.getUncommittedResults(results));
+        } catch (disposeError) {
+          (error as any).disposeErrors = (disposeError as ContainerDisposeError).errors;
         }
       }
+      this.events.emit('flowEnd', { flowName, isBuild, durationMs: Date.now() - flowStartedAt, success: false, error });
+      throw error;
+    }
+
+    // Swap the new build results into the containers at once, a failed run leaves them untouched
+    const replaced = isBuild ? this.commitContainers(results) : {};
+    if (isBuild) {
+      // Cached flow results computed from the previous containers are stale
+      this.clearCachedResults(Object.keys(results));
+    }
+
+    const success = !Object.values(steps).some(report => report.status === 'failed');
+    const compensations = success ? {} : await this.compensateAsync(flow, executionOrder, steps, containers, context, input);
+    await this.forgetCompensatedSteps(checkpointer, compensations);
+    // A completed run has nothing left to resume, runs with failed steps keep their checkpoint
+    if (success) {
+      await checkpointer?.finish();
     }
+    this.events.emit('flowEnd', { flowName, isBuild, durationMs: Date.now() - flowStartedAt, success });
+
+    // Tear down the containers replaced by a refresh or invalidation once the new ones are in place
+    await this.disposeContainersAsync(replaced);
   
     return {
       results,
-      success: true
+      success,
+      attempts,
+      steps,
+      compensations,
+      items
     };
   }
 
   /**
-   * Group steps by their dependency level for parallel execution
-   * Steps with no dependencies are level 0
-   * Steps that depend only on level 0 steps are level 1, etc.
+   * Evaluate the when condition of a flow step, steps without one always run
    */
-  private groupStepsByLevel(
-    flow: FlowDefinition, 
-    executionOrder: string[]
-  ): string[][] {
-    const levels: string[][] = [];
-    const stepLevels: Record<string, number> = {};
-  
-    // Helper to determine a step's level
-    const getStepLevel = (stepName: string): number => {
-      // If we've already calculated this step's level, return it
-      if (stepName in stepLevels) {
-        return stepLevels[stepName];
-      }
-    
-      // Get the step's dependencies
-      const deps = flow.dependencies[stepName] || [];
-    
-      // If no dependencies, it's level 0
-      if (deps.length === 0) {
-        stepLevels[stepName] = 0;
-        return 0;
+  private isConditionMet(
+    flowName: string,
+    stepName: string,
+    containers: Record<string, any>,
+    context: Record<string, any>,
+    input: unknown
+  ): boolean {
+    const { condition } = this.flows[flowName].steps[stepName];
+    return !condition || condition(this.readContainer(containers, stepName), context, input);
+  }
+
+  /**
+   * Read a container from the snapshot a run started with
+   * Containers of a lazy workflow that were not built yet when the run started are built on first read
+   */
+  private readContainer(containers: Record<string, any>, stepName: string): any {
+    return stepName in containers ? containers[stepName] : this.containers[stepName as keyof T];
+  }
+
+  /**
+   * Check the result of a step against the schema given with withSchema, steps without one are not checked
+   */
+  private validateStepResult(flowName: string, stepName: string, result: unknown): unknown {
+    const { schema } = this.flows[flowName].steps[stepName];
+    return schema ? validateResult(schema, result, stepName) : result;
+  }
+
+  /**
+   * Look up the cached result of a flow step configured with withCache
+   * Returns the key a computed result is stored under, with the entry when the cache has a fresh one
+   */
+  private lookupCache(
+    flowName: string,
+    stepName: string,
+    containers: Record<string, any>,
+    context: Record<string, any>,
+    input: unknown
+  ): { key: string; entry?: CacheEntry } | undefined {
+    const { cache } = this.flows[flowName].steps[stepName];
+    if (!cache) {
+      return undefined;
+    }
+
+    const store = cache.cache ?? this.resultCache;
+    const key = createCacheKey(flowName, stepName, cache.key(this.readContainer(containers, stepName), context, input));
+    const entry = store.get(key);
+    if (entry && isExpired(entry.expiresAt)) {
+      store.delete(key);
+      return { key };
+    }
+    return { key, entry };
+  }
+
+  /**
+   * Report a flow step answered from the cache, which makes no attempt
+   */
+  private emitCacheHit(stepEvent: StepStartEvent, stepStartedAt: number, result: unknown): void {
+    this.events.emit('stepSuccess', {
+      ...stepEvent,
+      durationMs: Date.now() - stepStartedAt,
+      attempts: 0,
+      result,
+      cache: 'hit'
+    });
+  }
+
+  /**
+   * Store the computed result of a cached flow step, expiring after the step's time to live
+   */
+  private storeCachedResult(flowName: string, stepName: string, key: string, value: unknown): void {
+    const { cache } = this.flows[flowName].steps[stepName];
+    const { ttlMs } = cache!;
+    (cache!.cache ?? this.resultCache).set(key, {
+      value,
+      expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : undefined
+    });
+  }
+
+  /**
+   * Remove the cached results of the flow steps acting on the given containers
+   */
+  private clearCachedResults(stepNames: string[]): void {
+    for (const [flowName, flow] of Object.entries(this.flows)) {
+      for (const stepName of stepNames) {
+        const cache = flow.steps[stepName]?.cache;
+        if (!cache) {
+          continue;
+        }
+
+        const store = cache.cache ?? this.resultCache;
+        const prefix = createCacheKeyPrefix(flowName, stepName);
+        // Keys are collected first, as deleting while iterating could skip entries
+        for (const key of Array.from(store.keys())) {
+          if (key.startsWith(prefix)) {
+            store.delete(key);
+          }
+        }
       }
+    }
+  }
+
+  /**
+   * Run a single attempt of a flow step through the middleware chain
+   * For the build flow this executes the step implementation with its dependencies,
+   * for other flows it executes the flow action with the container, context and input
+   */
+  private runStep(
+    flowName: string,
+    stepName: string,
+    containers: Record<string, any>,
+    context: Record<string, any>,
+    input: unknown,
+    execution: StepExecution
+  ): any {
+    // Special handling for the build flow: execute the actual step implementation
+    if (flowName === this.buildFlowName) {
+      const inputData: Record<string, any> = {};
+      const deps = this.dependencies[stepName] || [];
     
-      // Calculate the maximum level of dependencies, then add 1
-      let maxDepLevel = -1;
+      // Dependencies recomputed in this run are read from the run context,
+      // the others from the containers the run started with
       for (const dep of deps) {
-        // Recursively get the level of each dependency
-        const depLevel = getStepLevel(dep);
-        maxDepLevel = Math.max(maxDepLevel, depLevel);
+        const depStr = String(dep);
+        inputData[depStr] = depStr in context ? context[depStr] : this.readContainer(containers, depStr);
       }
     
-      // This step's level is one higher than its highest dependency
-      const level = maxDepLevel + 1;
-      stepLevels[stepName] = level;
-      return level;
-    };
-  
-    // Calculate levels for all steps
-    for (const stepName of executionOrder) {
-      const level = getStepLevel(stepName);
+      return this.runMiddleware(
+        { flowName, stepName, isBuild: true, input: inputData, execution },
+        () => this.steps[stepName](inputData, execution)
+      );
+    }
     
-      // Ensure the levels array has enough entries
-      while (levels.length <= level) {
-        levels.push([]);
-      }
+    // Normal flow execution
+    const container = this.readContainer(containers, stepName);
+    const { action } = this.flows[flowName].steps[stepName];
     
-      // Add the step to its level
-      levels[level].push(stepName);
+    return this.runMiddleware(
+      { flowName, stepName, isBuild: false, input, container, context, execution },
+      () => action(container, context, input, execution)
+    );
+  }
+
+  /**
+   * Run the middleware chain around a step, the first middleware added being the outermost
+   * The chain is the same for execute and executeAsync, only the results passed through next differ
+   */
+  private runMiddleware(ctx: StepMiddlewareContext, step: () => unknown): unknown {
+    const dispatch = (index: number): unknown => index < this.middleware.length
+      ? this.middleware[index](ctx, () => dispatch(index + 1))
+      : step();
+    return dispatch(0);
+  }
+
+  /**
+   * Run a single attempt of a flow step asynchronously
+   * The attempt gets its own signal that aborts with the run or when the step time limit is reached,
+   * and is rejected as soon as that signal aborts even if the step ignores it
+   */
+  private async runStepAsync(
+    flowName: string,
+    stepName: string,
+    containers: Record<string, any>,
+    context: Record<string, any>,
+    input: unknown,
+    run: RunController,
+    execution: Omit<StepExecution, 'signal'>,
+    timeoutMs?: number,
+    interrupted?: { attempt?: Promise<unknown> }
+  ): Promise<any> {
+    const stepRun = new RunController();
+    const unfollow = stepRun.follow(run.signal, () => run.error);
+    const stepTimer = timeoutMs !== undefined
+      ? setTimeout(() => stepRun.abort(new WorkflowTimeoutError(`Step "${stepName}" timed out after ${timeoutMs}ms`, timeoutMs, stepName)), timeoutMs)
+      : undefined;
+
+    try {
+      const attempt = this.runStep(flowName, stepName, containers, context, input, { ...execution, signal: stepRun.signal });
+      try {
+        return await stepRun.race(attempt);
+      } catch (error) {
+        // Keep the attempt the run abort interrupted, so the run can wait for it to settle
+        if (run.aborted && interrupted) {
+          interrupted.attempt = Promise.resolve(attempt);
+        }
+        throw error;
+      }
+    } finally {
+      clearTimeout(stepTimer);
+      unfollow();
+    }
+  }
+
+  /**
+   * Wait for a step attempt interrupted by the abort of its run
+   * A step that completes anyway is recorded as succeeded, so its compensation runs with the others
+   */
+  private async settleInterruptedStep(
+    flowName: string,
+    stepName: string,
+    attempt: Promise<unknown>,
+    context: Record<string, any>,
+    steps: Record<string, StepReport>
+  ): Promise<void> {
+    try {
+      context[stepName] = this.validateStepResult(flowName, stepName, await attempt);
+      steps[stepName] = { status: 'succeeded' };
+    } catch {
+      // The attempt failed on its own, there is nothing to undo
+    }
+  }
+
+  /**
+   * Run the action of a map step once per item synchronously
+   * Every item is processed even when others fail, the step fails afterwards if any item did
+   */
+  private runMapStep(
+    flowName: string,
+    stepName: string,
+    containers: Record<string, any>,
+    context: Record<string, any>,
+    input: unknown,
+    signal: AbortSignal,
+    attempts: Record<string, number>,
+    items: Record<string, MapItemReport[]>
+  ): unknown[] {
+    const step = this.flows[flowName].steps[stepName];
+    const values = this.selectMapItems(flowName, stepName, containers, context, input);
+    const reports: MapItemReport[] = items[stepName] = [];
+    const results: unknown[] = [];
+
+    values.forEach((item, index) => {
+      let itemAttempts = 0;
+      try {
+        const result = retrySync((attempt) => {
+          itemAttempts = attempt;
+          return this.runStep(flowName, stepName, containers, context, input, { signal, attempt, item, index });
+        }, step.retry);
+
+        if (isPromise(result)) {
+          // The Promise is dropped, so its rejection is handled here rather than becoming an unhandled rejection
+          Promise.resolve(result).catch(() => {});
+          throw new AsyncStepError(`Flow action for "${stepName}" returned a Promise, but execute requires synchronous execution. Use executeAsync instead.`, stepName);
+        }
+        results[index] = result;
+        reports[index] = { status: 'succeeded', attempts: itemAttempts, result };
+      } catch (error) {
+        reports[index] = { status: 'failed', attempts: itemAttempts, error };
+      }
+    });
+
+    return this.completeMapStep(stepName, results, reports, attempts);
+  }
+
+  /**
+   * Run the action of a map step once per item, processing up to its concurrency limit in parallel
+   * Every item is processed even when others fail, the step fails afterwards if any item did
+   */
+  private async runMapStepAsync(
+    flowName: string,
+    stepName: string,
+    containers: Record<string, any>,
+    context: Record<string, any>,
+    input: unknown,
+    run: RunController,
+    timeoutMs: number | undefined,
+    attempts: Record<string, number>,
+    items: Record<string, MapItemReport[]>
+  ): Promise<unknown[]> {
+    const step = this.flows[flowName].steps[stepName];
+    const values = this.selectMapItems(flowName, stepName, containers, context, input);
+    const reports: MapItemReport[] = items[stepName] = [];
+    const results: unknown[] = [];
+    let nextIndex = 0;
+
+    // Each worker picks the next item until none are left
+    const worker = async (): Promise<void> => {
+      while (nextIndex < values.length) {
+        const index = nextIndex++;
+        const item = values[index];
+        let itemAttempts = 0;
+
+        // Items that have not started yet are not started once the run is aborted
+        run.throwIfAborted();
+
+        try {
+          const result = await retryAsync((attempt) => {
+            itemAttempts = attempt;
+            return this.runStepAsync(flowName, stepName, containers, context, input, run, { attempt, item, index }, timeoutMs);
+          }, step.retry, run.signal);
+          results[index] = result;
+          reports[index] = { status: 'succeeded', attempts: itemAttempts, result };
+        } catch (error) {
+          if (run.aborted) {
+            throw run.error;
+          }
+          reports[index] = { status: 'failed', attempts: itemAttempts, error };
+        }
+      }
+    };
+
+    const workerCount = Math.max(1, Math.min(step.map!.concurrency ?? values.length, values.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    return this.completeMapStep(stepName, results, reports, attempts);
+  }
+
+  /**
+   * Select the items of a map step from its container, context and input
+   */
+  private selectMapItems(
+    flowName: string,
+    stepName: string,
+    containers: Record<string, any>,
+    context: Record<string, any>,
+    input: unknown
+  ): unknown[] {
+    const { map } = this.flows[flowName].steps[stepName];
+    return Array.from(map!.items(context, this.readContainer(containers, stepName), input));
+  }
+
+  /**
+   * Record the attempts of a map step and fail it if any of its items failed
+   */
+  private completeMapStep(
+    stepName: string,
+    results: unknown[],
+    reports: MapItemReport[],
+    attempts: Record<string, number>
+  ): unknown[] {
+    attempts[stepName] = Math.max(1, ...reports.map(report => report.attempts));
+
+    const failedCount = reports.filter(report => report.status === 'failed').length;
+    if (failedCount > 0) {
+      throw new MapStepError(`${failedCount} of ${reports.length} items failed`, reports);
+    }
+
+    return results;
+  }
+
+  /**
+   * Run the compensations of the completed steps of a failed flow synchronously
+   * Compensations run in reverse topological order and a failing one does not stop the others
+   */
+  private compensate(
+    flow: FlowDefinition,
+    executionOrder: string[],
+    steps: Record<string, StepReport>,
+    containers: Record<string, any>,
+    context: Record<string, any>,
+    input: unknown
+  ): Record<string, CompensationReport> {
+    const compensations: Record<string, CompensationReport> = {};
+
+    for (const stepName of this.getCompensationOrder(flow, executionOrder, steps)) {
+      try {
+        const outcome = flow.steps[stepName].compensate!(
+          context[stepName],
+          this.readContainer(containers, stepName),
+          context,
+          input
+        );
+
+        if (isPromise(outcome)) {
+          // The Promise is dropped, so its rejection is handled here rather than becoming an unhandled rejection
+          Promise.resolve(outcome).catch(() => {});
+          throw new Error(`Compensation for "${stepName}" returned a Promise, but execute requires synchronous execution. Use executeAsync instead.`);
+        }
+        compensations[stepName] = { status: 'compensated' };
+      } catch (error) {
+        compensations[stepName] = { status: 'failed', error };
+      }
+    }
+
+    return compensations;
+  }
+
+  /**
+   * Run the compensations of the completed steps of a failed flow one after another
+   * Compensations run in reverse topological order and a failing one does not stop the others
+   */
+  private async compensateAsync(
+    flow: FlowDefinition,
+    executionOrder: string[],
+    steps: Record<string, StepReport>,
+    containers: Record<string, any>,
+    context: Record<string, any>,
+    input: unknown
+  ): Promise<Record<string, CompensationReport>> {
+    const compensations: Record<string, CompensationReport> = {};
+
+    for (const stepName of this.getCompensationOrder(flow, executionOrder, steps)) {
+      try {
+        await flow.steps[stepName].compensate!(
+          context[stepName],
+          this.readContainer(containers, stepName),
+          context,
+          input
+        );
+        compensations[stepName] = { status: 'compensated' };
+      } catch (error) {
+        compensations[stepName] = { status: 'failed', error };
+      }
     }
+
+    return compensations;
+  }
+
+  /**
+   * Completed steps with a compensation, in reverse topological order
+   */
+  private getCompensationOrder(
+    flow: FlowDefinition,
+    executionOrder: string[],
+    steps: Record<string, StepReport>
+  ): string[] {
+    return executionOrder
+      .filter(stepName => steps[stepName]?.status === 'succeeded' && flow.steps[stepName].compensate)
+      .reverse();
+  }
+
+  /**
+   * Find the failed step that prevents a step from running under the skipDependents policy
+   * Dependencies that were skipped themselves pass on the step that caused it
+   */
+  private findFailedDependency(
+    flow: FlowDefinition,
+    stepName: string,
+    steps: Record<string, StepReport>,
+    errorPolicy: ErrorPolicy
+  ): string | undefined {
+    if (errorPolicy !== 'skipDependents') {
+      return undefined;
+    }
+
+    for (const dep of flow.dependencies[stepName] || []) {
+      const report = steps[dep];
+      if (report?.status === 'failed') {
+        return dep;
+      }
+      if (report?.status === 'skipped' && report.failedDependency) {
+        return report.failedDependency;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Wrap an error thrown by a step, preserving the original error
+   */
+  private createStepError(stepName: string, error: unknown, attempts = 1): Error {
+    const reason = error instanceof Error ? error.message : String(error);
+    const errorMessage = attempts > 1
+      ? `Step "${stepName}" failed after ${attempts} attempts: ${reason}`
+      : `Step "${stepName}" failed: ${reason}`;
+    const finalError = new Error(errorMessage);
+    (finalError as any).originalError = error;
+    (finalError as any).attempts = attempts;
+    return finalError;
+  }
+
+  /**
+   * Group steps by their dependency level
+   * Steps with no dependencies are level 0
+   * Steps that depend only on level 0 steps are level 1, etc.
+   */
+  private groupStepsByLevel(
+    flow: FlowDefinition, 
+    executionOrder: string[]
+  ): string[][] {
+    return groupByLevel(flow.dependencies, executionOrder);
+  }
   
-    return levels;
+  /**
+   * Map each step to the index of its level group
+   */
+  private indexStepLevels(levelGroups: string[][]): Record<string, number> {
+    const stepLevels: Record<string, number> = {};
+    levelGroups.forEach((levelSteps, level) => {
+      for (const stepName of levelSteps) {
+        stepLevels[stepName] = level;
+      }
+    });
+    return stepLevels;
   }
   
    /**
    * Calculate execution order for a specific flow
    */
-  private calculateFlowExecutionOrder(flowName: string): string[] {
+  private calculateFlowExecutionOrder(flowName: string, stepNames?: string[]): string[] {
     const flow = this.flows[flowName];
     // Use the utility function for topological sort
-    return topologicalSort(flow.dependencies);
+    const order = topologicalSort(flow.dependencies);
+    return stepNames ? order.filter(stepName => stepNames.includes(stepName)) : order;
+  }
+
+  /**
+   * Create the checkpointer of a run when a state store is given
+   */
+  private createCheckpointer(
+    flowName: string,
+    input: unknown,
+    options: AsyncExecuteOptions,
+    checkpoint?: RunCheckpoint
+  ): RunCheckpointer | undefined {
+    const { store, runId } = options;
+    if (!store) {
+      return undefined;
+    }
+    if (runId === undefined) {
+      throw new Error(`A runId is required to checkpoint flow "${flowName}"`);
+    }
+    return new RunCheckpointer(store, runId, checkpoint ?? { flowName, input, completedSteps: [], results: {} });
+  }
+
+  /**
+   * Remove the compensated steps from the checkpoint of a run, as their results no longer hold
+   * Steps whose compensation failed stay completed, so resuming does not repeat them
+   */
+  private forgetCompensatedSteps(
+    checkpointer: RunCheckpointer | undefined,
+    compensations: Record<string, CompensationReport>
+  ): Promise<void> | undefined {
+    return checkpointer?.forget(
+      Object.keys(compensations).filter(stepName => compensations[stepName].status === 'compensated')
+    );
+  }
+
+  /**
+   * Collect a step of a lazy workflow and the dependencies it is missing, in topological order
+   */
+  private collectPendingSteps(stepName: string): string[] {
+    const missing = new Set<string>();
+    const visit = (name: string): void => {
+      if (this.pendingSteps.has(name) && !missing.has(name)) {
+        missing.add(name);
+        (this.dependencies[name] || []).forEach(dep => visit(String(dep)));
+      }
+    };
+    visit(stepName);
+
+    return topologicalSort(this.dependencies as Record<string, Array<string>>).filter(name => missing.has(name));
+  }
+
+  /**
+   * Build a step of a lazy workflow asynchronously once its missing dependencies are built
+   * A step that is already being built is awaited rather than built twice
+   */
+  private buildPendingStep(stepName: string, options?: BuildOptions): Promise<void> {
+    if (!this.pendingSteps.has(stepName)) {
+      return Promise.resolve();
+    }
+
+    let build = this.lazyBuilds.get(stepName);
+    if (!build) {
+      build = (async () => {
+        await Promise.all((this.dependencies[stepName] || []).map(dep => this.buildPendingStep(String(dep), options)));
+        await this._executeFlowAsync(this.buildFlowName, undefined, options, [stepName]);
+      })().finally(() => this.lazyBuilds.delete(stepName));
+      this.lazyBuilds.set(stepName, build);
+    }
+    return build;
+  }
+
+  /**
+   * Forward the container changes of this workflow to the subscribers of a scope built on top of it
+   */
+  private followedBy<S extends Record<string, any>, F extends Record<string, FlowSignature>>(
+    scope: Workflow<S, F>
+  ): Workflow<S, F> {
+    (scope as unknown as WorkflowInstance<S, F>)._followParent(this.subscribe);
+    return scope;
+  }
+
+  /**
+   * Keep building a lazy container whose step returned a Promise during a synchronous read
+   * The container is committed once the Promise resolves, and getAsync waits for it instead of running the step again
+   */
+  private adoptLazyBuild(stepName: string, pending: PromiseLike<unknown>): void {
+    const build = Promise.resolve(pending)
+      .then(async (rawResult) => {
+        const result = this.validateStepResult(this.buildFlowName, stepName, rawResult);
+        // The container was built by another run or released in the meantime
+        if (!this.pendingSteps.has(stepName)) {
+          await this.disposeContainersAsync({ [stepName]: result });
+          return;
+        }
+        this.commitContainers({ [stepName]: result });
+        this.clearCachedResults([stepName]);
+      }, (error) => {
+        throw this.createStepError(stepName, error);
+      })
+      .finally(() => this.lazyBuilds.delete(stepName));
+
+    // Failures are reported to the getAsync calls waiting for the build
+    build.catch(() => {});
+    this.lazyBuilds.set(stepName, build);
+  }
+
+  /**
+   * Create a builder for a scope on top of the containers of this workflow
+   */
+  private createScopeBuilder(): WorkflowBuilder<T & {}, {}> {
+    return new WorkflowBuilder()._registerParentContainers(this.containers);
+  }
+
+  /**
+   * Copy the built containers, including the ones a scope inherits from its parent
+   * Containers of a lazy workflow that were not built yet are not enumerable and are left out
+   */
+  private readContainers(): Record<string, unknown> {
+    const containers: Record<string, unknown> = {};
+    for (const stepName in this.containers) {
+      containers[stepName] = this.containers[stepName];
+    }
+    return containers;
+  }
+
+  /**
+   * Replace the containers with the results of a build run in a single synchronous update
+   * Subscribers are notified of the containers that changed
+   * Returns the previous containers that were replaced by a different value
+   */
+  private commitContainers(results: Record<string, any>): Record<string, any> {
+    const replaced: Record<string, any> = {};
+    const changed: string[] = [];
+
+    for (const [stepName, result] of Object.entries(results)) {
+      // Containers of a lazy workflow that were not built yet have no previous value
+      const exists = stepName in this.containers && !this.pendingSteps.has(stepName);
+      const previous = exists ? this.containers[stepName as keyof T] : undefined;
+      if (exists && previous !== result) {
+        replaced[stepName] = previous;
+      }
+      if (!exists || previous !== result) {
+        changed.push(stepName);
+      }
+    }
+
+    Object.assign(this.containers, results);
+    this.notifyChanges(changed);
+    return replaced;
+  }
+
+  /**
+   * Remove all containers from the workflow and return them
+   */
+  private releaseContainers(): Record<string, any> {
+    // Only built containers are enumerable, the accessors of the pending ones are removed without building them
+    const released: Record<string, any> = { ...this.containers };
+
+    for (const stepName of Object.getOwnPropertyNames(this.containers)) {
+      delete this.containers[stepName as keyof T];
+    }
+    this.pendingSteps.clear();
+    this.unfollowParent?.();
+
+    this.notifyChanges(Object.keys(released));
+    return released;
+  }
+
+  /**
+   * Move to a new snapshot version and notify the subscribers of changed containers
+   */
+  private notifyChanges(changed: string[]): void {
+    if (changed.length === 0) {
+      return;
+    }
+
+    this.version++;
+    this.snapshot = undefined;
+    this.changes.emit('change', changed as Array<keyof T & string>);
+    for (const stepName of changed) {
+      this.containerChanges.emit(stepName, this.containers[stepName as keyof T]);
+    }
+  }
+
+  /**
+   * Dispose containers synchronously in reverse topological order
+   * Every container is disposed even when some of them fail
+   */
+  private disposeContainers(containers: Record<string, any>): void {
+    const errors: Record<string, unknown> = {};
+
+    for (const stepName of this.getDisposalOrder(containers)) {
+      const dispose = findDisposer(containers[stepName], this.disposers[stepName], false);
+      if (!dispose) {
+        continue;
+      }
+
+      try {
+        const outcome = dispose();
+        if (isPromise(outcome)) {
+          // The Promise is dropped, so its rejection is handled here rather than becoming an unhandled rejection
+          Promise.resolve(outcome).catch(() => {});
+          throw new Error(`Disposer for "${stepName}" returned a Promise, but dispose requires synchronous execution. Use disposeAsync instead.`);
+        }
+      } catch (error) {
+        errors[stepName] = error;
+      }
+    }
+
+    this.throwDisposeErrors(errors);
+  }
+
+  /**
+   * Dispose containers asynchronously in reverse topological order, one at a time
+   * Every container is disposed even when some of them fail
+   */
+  private async disposeContainersAsync(containers: Record<string, any>): Promise<void> {
+    const errors: Record<string, unknown> = {};
+
+    for (const stepName of this.getDisposalOrder(containers)) {
+      const dispose = findDisposer(containers[stepName], this.disposers[stepName], true);
+      if (!dispose) {
+        continue;
+      }
+
+      try {
+        await dispose();
+      } catch (error) {
+        errors[stepName] = error;
+      }
+    }
+
+    this.throwDisposeErrors(errors);
+  }
+
+  /**
+   * Results of a failed build run that are not the committed containers
+   */
+  private getUncommittedResults(results: Record<string, any>): Record<string, any> {
+    const uncommitted: Record<string, any> = {};
+    for (const [stepName, result] of Object.entries(results)) {
+      const committed = stepName in this.containers && !this.pendingSteps.has(stepName);
+      if (!committed || this.containers[stepName as keyof T] !== result) {
+        uncommitted[stepName] = result;
+      }
+    }
+    return uncommitted;
+  }
+
+  /**
+   * Get the order in which containers are disposed: dependents before their dependencies
+   */
+  private getDisposalOrder(containers: Record<string, any>): string[] {
+    return topologicalSort(this.dependencies as Record<string, Array<string>>)
+      .reverse()
+      .filter(stepName => stepName in containers);
+  }
+
+  /**
+   * Raise the errors collected while disposing containers
+   */
+  private throwDisposeErrors(errors: Record<string, unknown>): void {
+    const failed = Object.keys(errors);
+    if (failed.length > 0) {
+      throw new ContainerDisposeError(`Failed to dispose containers: ${failed.map(name => `"${name}"`).join(', ')}`, errors);
+    }
+  }
+
+  /**
+   * Collect an invalidated step and its transitive dependents in topological order
+   * Containers of a lazy workflow that were not built yet stay lazy, they are built from the new values on first read
+   */
+  private collectInvalidatedSteps(stepName: keyof T & string): Array<keyof T & string> {
+    if (!(stepName in this.steps)) {
+      throw new Error(`Step "${stepName}" does not exist`);
+    }
+    return collectDependents(this.dependencies as Record<string, Array<string>>, stepName)
+      .filter(dependent => !this.pendingSteps.has(dependent)) as Array<keyof T & string>;
   }
 }
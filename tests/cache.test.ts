@@ -0,0 +1,125 @@
+import { describe, it, expect } from '@jest/globals';
+import { LruResultCache, WorkflowBuilder } from '../src';
+import type { ResultCache } from '../src';
+
+function createPricingWorkflow(calls: string[], options: { ttlMs?: number; cache?: ResultCache } = {}) {
+  let rateVersion = 0;
+
+  return new WorkflowBuilder()
+    .addStepWithoutDependencies('rates')
+    .withImplementation(() => ({ version: ++rateVersion, vat: 0.2 }))
+    .addStep('pricing', ['rates'])
+    .withImplementation(({ rates }) => ({ rates }))
+    .addStepWithoutDependencies('audit')
+    .withImplementation(() => ({}))
+    .defineFlow('quote')
+    .withInput<{ sku: string; amount: number }>()
+    .addFlowStep('pricing')
+    .withCache({ key: (_, __, input) => input.sku, ...options })
+    .withFlowAction(async (pricing, _, input) => {
+      calls.push(input.sku);
+      return input.amount * (1 + pricing.rates.vat) + pricing.rates.version / 1000;
+    })
+    .addFlowStep('audit', ['pricing'])
+    .withFlowAction((_, context) => `quoted ${context.pricing}`)
+    .endFlow()
+    .build();
+}
+
+describe('Cached Flow Steps', () => {
+  it('should reuse results for the same cache key and report hits and misses', async () => {
+    const calls: string[] = [];
+    const workflow = createPricingWorkflow(calls);
+
+    const first = await workflow.executeAsync('quote', { sku: 'book', amount: 10 });
+    const second = await workflow.executeAsync('quote', { sku: 'book', amount: 10 });
+    const other = await workflow.executeAsync('quote', { sku: 'pen', amount: 2 });
+
+    expect(calls).toEqual(['book', 'pen']);
+    expect(first.steps.pricing).toEqual({ status: 'succeeded', cache: 'miss' });
+    expect(second.steps.pricing).toEqual({ status: 'succeeded', cache: 'hit' });
+    expect(other.steps.pricing.cache).toBe('miss');
+    expect(second.results).toEqual(first.results);
+    expect(second.steps.audit).toEqual({ status: 'succeeded' });
+  });
+
+  it('should emit step events for cache hits with the cache status', async () => {
+    const workflow = createPricingWorkflow([]);
+    const events: unknown[] = [];
+    workflow.on('stepStart', ({ stepName }) => events.push(['start', stepName]));
+    workflow.on('stepSuccess', ({ stepName, attempts, cache }) => events.push(['success', stepName, attempts, cache]));
+
+    await workflow.executeAsync('quote', { sku: 'book', amount: 10 });
+    events.length = 0;
+    await workflow.executeAsync('quote', { sku: 'book', amount: 10 });
+    workflow.execute('quote', { sku: 'book', amount: 10 });
+
+    const hit = [['start', 'pricing'], ['success', 'pricing', 0, 'hit'], ['start', 'audit'], ['success', 'audit', 1, undefined]];
+    expect(events).toEqual([...hit, ...hit]);
+  });
+
+  it('should share the cache between execute and executeAsync', async () => {
+    const calls: string[] = [];
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('lookup')
+      .withImplementation(() => ({}))
+      .defineFlow('find')
+      .withInput<string>()
+      .addFlowStep('lookup')
+      .withCache({ key: (_, __, input) => input })
+      .withFlowAction((_, __, input) => {
+        calls.push(input);
+        return input.toUpperCase();
+      })
+      .endFlow()
+      .build();
+
+    expect(workflow.execute('find', 'ada').steps.lookup.cache).toBe('miss');
+    expect((await workflow.executeAsync('find', 'ada')).results.lookup).toBe('ADA');
+    expect(calls).toEqual(['ada']);
+  });
+
+  it('should expire results after their time to live', async () => {
+    const calls: string[] = [];
+    const workflow = createPricingWorkflow(calls, { ttlMs: 20 });
+
+    await workflow.executeAsync('quote', { sku: 'book', amount: 10 });
+    await workflow.executeAsync('quote', { sku: 'book', amount: 10 });
+    await new Promise(resolve => setTimeout(resolve, 30));
+    const expired = await workflow.executeAsync('quote', { sku: 'book', amount: 10 });
+
+    expect(calls).toEqual(['book', 'book']);
+    expect(expired.steps.pricing.cache).toBe('miss');
+  });
+
+  it('should clear the results of steps depending on an invalidated container', async () => {
+    const calls: string[] = [];
+    const workflow = createPricingWorkflow(calls);
+
+    const before = await workflow.executeAsync('quote', { sku: 'book', amount: 10 });
+    workflow.invalidate('rates');
+    const after = await workflow.executeAsync('quote', { sku: 'book', amount: 10 });
+
+    expect(calls).toEqual(['book', 'book']);
+    expect(after.steps.pricing.cache).toBe('miss');
+    expect(after.results.pricing).not.toBe(before.results.pricing);
+
+    // Invalidating an unrelated container keeps the cached results
+    workflow.invalidate('audit');
+    expect((await workflow.executeAsync('quote', { sku: 'book', amount: 10 })).steps.pricing.cache).toBe('hit');
+  });
+
+  it('should store results in a custom cache', async () => {
+    const cache = new LruResultCache(1);
+    const calls: string[] = [];
+    const workflow = createPricingWorkflow(calls, { cache });
+
+    await workflow.executeAsync('quote', { sku: 'book', amount: 10 });
+    await workflow.executeAsync('quote', { sku: 'pen', amount: 2 });
+    await workflow.executeAsync('quote', { sku: 'book', amount: 10 });
+
+    // The least recently used entry is evicted once the cache is full
+    expect(calls).toEqual(['book', 'pen', 'book']);
+    expect(Array.from(cache.keys())).toEqual([JSON.stringify(['quote', 'pricing', 'book'])]);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from '@jest/globals';
+import { WorkflowBuilder, WorkflowCancelledError, WorkflowTimeoutError } from '../src';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Timeouts and Cancellation', () => {
+  describe('Step Timeouts', () => {
+    it('should reject with a timeout error when a step exceeds its time limit', async () => {
+      let aborted = false;
+
+      const workflow = new WorkflowBuilder()
+        .addStepWithoutDependencies('api')
+        .withImplementation(() => 'api')
+        .defineFlow('slow')
+        .addFlowStep('api')
+        .withFlowAction(async (_, __, ___, { signal }) => {
+          signal.addEventListener('abort', () => { aborted = true; });
+          await delay(200);
+          return 'done';
+        })
+        .endFlow()
+        .build();
+
+      const error = await workflow.executeAsync('slow', undefined, { stepTimeoutMs: 20 })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(WorkflowTimeoutError);
+      expect((error as WorkflowTimeoutError).stepName).toBe('api');
+      expect((error as Error).message).toBe('Step "api" timed out after 20ms');
+      expect(aborted).toBe(true);
+    });
+
+    it('should prefer the time limit configured on the step and retry timed out attempts', async () => {
+      let calls = 0;
+
+      const workflow = await new WorkflowBuilder()
+        .addStepWithoutDependencies('flaky')
+        .withImplementation(async () => {
+          calls++;
+          if (calls === 1) {
+            await delay(200);
+          }
+          return 'ok';
+        }, { timeoutMs: 20, retry: { maxAttempts: 2 } })
+        .buildAsync({ stepTimeoutMs: 1000 });
+
+      expect(workflow.containers.flaky).toBe('ok');
+      expect(calls).toBe(2);
+    });
+  });
+
+  describe('Flow Timeouts', () => {
+    it('should not start later steps once the flow time limit is reached', async () => {
+      const started: string[] = [];
+
+      const builder = new WorkflowBuilder()
+        .addStepWithoutDependencies('first')
+        .withImplementation(async () => {
+          started.push('first');
+          await delay(100);
+          return 'first';
+        })
+        .addStep('second', ['first'])
+        .withImplementation(() => {
+          started.push('second');
+          return 'second';
+        });
+
+      await expect(builder.buildAsync({ timeoutMs: 20 })).rejects.toThrow(WorkflowTimeoutError);
+      await delay(120);
+      expect(started).toEqual(['first']);
+    });
+  });
+
+  describe('AbortSignal', () => {
+    it('should reject with a cancellation error when the signal aborts', async () => {
+      const controller = new AbortController();
+      const started: string[] = [];
+
+      const workflow = new WorkflowBuilder()
+        .addStepWithoutDependencies('a')
+        .withImplementation(() => 'a')
+        .addStepWithoutDependencies('b')
+        .withImplementation(() => 'b')
+        .defineFlow('checkout')
+        .addFlowStep('a')
+        .withFlowAction(async () => {
+          started.push('a');
+          await delay(100);
+          return 'a';
+        })
+        .addFlowStep('b', ['a'])
+        .withFlowAction(() => {
+          started.push('b');
+          return 'b';
+        })
+        .endFlow()
+        .build();
+
+      const run = workflow.executeAsync('checkout', undefined, { signal: controller.signal });
+      setTimeout(() => controller.abort('navigated away'), 10);
+
+      const error = await run.catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(WorkflowCancelledError);
+      expect((error as Error).message).toBe('Flow "checkout" was cancelled');
+
+      await delay(120);
+      expect(started).toEqual(['a']);
+    });
+
+    it('should not start any step when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      let started = false;
+
+      const builder = new WorkflowBuilder()
+        .addStepWithoutDependencies('a')
+        .withImplementation(() => {
+          started = true;
+          return 'a';
+        });
+
+      await expect(builder.buildAsync({ signal: controller.signal }))
+        .rejects.toBeInstanceOf(WorkflowCancelledError);
+      expect(started).toBe(false);
+    });
+
+    it('should pass a signal to step implementations', async () => {
+      const workflow = await new WorkflowBuilder()
+        .addStepWithoutDependencies('a')
+        .withImplementation((_, { signal, attempt }) => ({ aborted: signal.aborted, attempt }))
+        .buildAsync();
+
+      expect(workflow.containers.a).toEqual({ aborted: false, attempt: 1 });
+    });
+  });
+});
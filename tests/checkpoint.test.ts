@@ -0,0 +1,159 @@
+import { describe, it, expect } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { CheckpointError, FileStateStore, MemoryStateStore, WorkflowBuilder } from '../src';
+import type { StateStore } from '../src';
+
+function createOrderWorkflow(calls: string[], state: { failShipping: boolean }) {
+  return new WorkflowBuilder()
+    .addStepWithoutDependencies('payments')
+    .withImplementation(() => ({}))
+    .addStepWithoutDependencies('shipping')
+    .withImplementation(() => ({}))
+    .defineFlow('order')
+    .withInput<{ orderId: string }>()
+    .addFlowStep('payments')
+    .withFlowAction(async (_, __, input) => {
+      calls.push('charge');
+      return { chargeId: `charge-${input.orderId}` };
+    })
+    .addFlowStep('shipping', ['payments'])
+    .withFlowAction(async (_, context) => {
+      calls.push('ship');
+      if (state.failShipping) {
+        throw new Error('Carrier unavailable');
+      }
+      return `shipped after ${context.payments.chargeId}`;
+    })
+    .endFlow()
+    .build();
+}
+
+async function expectResumeSkipsCompletedSteps(store: StateStore) {
+  const calls: string[] = [];
+  const state = { failShipping: true };
+  const workflow = createOrderWorkflow(calls, state);
+
+  await expect(workflow.executeAsync('order', { orderId: '42' }, { store, runId: 'run-1' }))
+    .rejects.toThrow('Carrier unavailable');
+  expect(await store.load('run-1')).toEqual({
+    flowName: 'order',
+    input: { orderId: '42' },
+    completedSteps: ['payments'],
+    results: { payments: { chargeId: 'charge-42' } }
+  });
+
+  state.failShipping = false;
+  const result = await workflow.resume('run-1', { store });
+
+  expect(calls).toEqual(['charge', 'ship', 'ship']);
+  expect(result.results.shipping).toBe('shipped after charge-42');
+  expect(result.steps.payments).toEqual({ status: 'succeeded', restored: true });
+  expect(result.steps.shipping).toEqual({ status: 'succeeded' });
+}
+
+describe('Checkpointing', () => {
+  it('should resume a run from a memory store without repeating completed steps', async () => {
+    await expectResumeSkipsCompletedSteps(new MemoryStateStore());
+  });
+
+  it('should resume a run from a file store without repeating completed steps', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'flowologist-'));
+    try {
+      await expectResumeSkipsCompletedSteps(new FileStateStore(directory));
+
+      // The checkpoint is deleted once the resumed run completed, also for a new store on the same directory
+      const store = new FileStateStore(directory);
+      expect(await store.load('run-1')).toBeUndefined();
+      expect(await fs.readdir(directory)).toEqual([]);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should delete the checkpoint of a run that completed', async () => {
+    const store = new MemoryStateStore();
+    const workflow = createOrderWorkflow([], { failShipping: false });
+
+    await workflow.executeAsync('order', { orderId: '7' }, { store, runId: 'run-3' });
+
+    expect(await store.load('run-3')).toBeUndefined();
+    await expect(workflow.resume('run-3', { store })).rejects.toThrow('Run "run-3" has no checkpoint to resume from');
+  });
+
+  it('should run compensated steps again when resuming', async () => {
+    const store = new MemoryStateStore();
+    const log: string[] = [];
+    const state = { declineCard: true };
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('stock')
+      .withImplementation(() => ({}))
+      .addStepWithoutDependencies('card')
+      .withImplementation(() => ({}))
+      .defineFlow('checkout')
+      .addFlowStep('stock')
+      .withCompensation(() => log.push('release stock'))
+      .withFlowAction(async () => {
+        log.push('reserve stock');
+        return 'reservation-1';
+      })
+      .addFlowStep('card', ['stock'])
+      .withFlowAction(async () => {
+        if (state.declineCard) {
+          throw new Error('Card declined');
+        }
+        log.push('charge');
+        return 'charge-1';
+      })
+      .endFlow()
+      .build();
+
+    await expect(workflow.executeAsync('checkout', undefined, { store, runId: 'run-2' })).rejects.toThrow('Card declined');
+    expect((await store.load('run-2'))?.completedSteps).toEqual([]);
+
+    state.declineCard = false;
+    const result = await workflow.resume('run-2', { store });
+
+    expect(log).toEqual(['reserve stock', 'release stock', 'reserve stock', 'charge']);
+    expect(result.steps.stock).toEqual({ status: 'succeeded' });
+  });
+
+  it('should reject results that cannot be serialized', async () => {
+    const store = new MemoryStateStore();
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('client')
+      .withImplementation(() => ({}))
+      .defineFlow('connect')
+      .addFlowStep('client')
+      .withFlowAction(() => ({ connection: { query: () => 'rows' } }))
+      .endFlow()
+      .build();
+
+    const error = await workflow.executeAsync('connect', undefined, { store, runId: 'run-2' }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(CheckpointError);
+    expect(error.message).toBe('Result of step "client" cannot be checkpointed: result.connection.query is a function');
+    expect(error.stepName).toBe('client');
+    expect(error.path).toBe('result.connection.query');
+  });
+
+  it('should reject inputs that cannot be serialized', async () => {
+    const workflow = createOrderWorkflow([], { failShipping: false });
+
+    await expect(workflow.executeAsync('order', { orderId: new Date() as unknown as string }, {
+      store: new MemoryStateStore(),
+      runId: 'run-3'
+    })).rejects.toThrow('Input of flow "order" cannot be checkpointed: input.orderId is an instance of Date');
+  });
+
+  it('should require a run ID and an existing checkpoint', async () => {
+    const workflow = createOrderWorkflow([], { failShipping: false });
+    const store = new MemoryStateStore();
+
+    await expect(workflow.executeAsync('order', { orderId: '1' }, { store }))
+      .rejects.toThrow('A runId is required to checkpoint flow "order"');
+    await expect(workflow.resume('missing', { store }))
+      .rejects.toThrow('Run "missing" has no checkpoint to resume from');
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect } from '@jest/globals';
+import { WorkflowBuilder } from '../src';
+import { collectUnhandledRejections } from './utils/testHelpers';
+
+interface Reservation {
+  id: string;
+  qty: number;
+}
+
+interface Charge {
+  chargeId: string;
+}
+
+function createCheckoutWorkflow(log: string[], options: { failEmail?: boolean; failRefund?: boolean } = {}) {
+  return new WorkflowBuilder()
+    .addStepWithoutDependencies('stock')
+    .withImplementation(() => ({
+      reserve: (qty: number): Reservation => ({ id: 'r-1', qty }),
+      release: (reservation: Reservation) => log.push(`release:${reservation.id}`)
+    }))
+    .addStepWithoutDependencies('card')
+    .withImplementation(() => ({
+      charge: async (amount: number): Promise<Charge> => ({ chargeId: `c-${amount}` }),
+      refund: (charge: Charge) => {
+        if (options.failRefund) {
+          throw new Error('Refund rejected');
+        }
+        log.push(`refund:${charge.chargeId}`);
+      }
+    }))
+    .addStepWithoutDependencies('mailer')
+    .withImplementation(() => ({
+      send: () => {
+        if (options.failEmail) {
+          throw new Error('SMTP down');
+        }
+        return 'sent';
+      }
+    }))
+    .defineFlow('checkout')
+    .withInput<{ qty: number; amount: number }>()
+    .addFlowStep('stock')
+    .withCompensation((reservation: Reservation, stock) => stock.release(reservation))
+    .withFlowAction((stock, _, input) => stock.reserve(input.qty))
+    .addFlowStep('card', ['stock'])
+    .withCompensation((charge: Charge, card) => card.refund(charge))
+    .withFlowAction((card, _, input) => card.charge(input.amount))
+    .addFlowStep('mailer', ['card'])
+    .withFlowAction((mailer) => mailer.send())
+    .endFlow()
+    .build();
+}
+
+describe('Compensation', () => {
+  it('should undo completed steps in reverse order when a flow fails', async () => {
+    const log: string[] = [];
+    const workflow = createCheckoutWorkflow(log, { failEmail: true });
+
+    const error = await workflow.executeAsync('checkout', { qty: 2, amount: 50 })
+      .catch((e: unknown) => e);
+
+    expect((error as Error).message).toBe('Step "mailer" failed: SMTP down');
+    expect(log).toEqual(['refund:c-50', 'release:r-1']);
+    expect((error as any).compensations).toEqual({
+      card: { status: 'compensated' },
+      stock: { status: 'compensated' }
+    });
+  });
+
+  it('should not run compensations when the flow succeeds', async () => {
+    const log: string[] = [];
+    const workflow = createCheckoutWorkflow(log);
+
+    const result = await workflow.executeAsync('checkout', { qty: 1, amount: 10 });
+
+    expect(result.success).toBe(true);
+    expect(result.compensations).toEqual({});
+    expect(log).toEqual([]);
+  });
+
+  it('should collect compensation failures and keep compensating', async () => {
+    const log: string[] = [];
+    const workflow = createCheckoutWorkflow(log, { failEmail: true, failRefund: true });
+
+    const result = await workflow.executeAsync('checkout', { qty: 3, amount: 5 }, { errorPolicy: 'continue' });
+
+    expect(result.success).toBe(false);
+    expect(log).toEqual(['release:r-1']);
+    expect(result.compensations.card.status).toBe('failed');
+    expect((result.compensations.card.error as Error).message).toBe('Refund rejected');
+    expect(result.compensations.stock).toEqual({ status: 'compensated' });
+  });
+
+  it('should wait for parallel steps still running to compensate them when failing fast', async () => {
+    const log: string[] = [];
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('stock')
+      .withImplementation(() => 'stock')
+      .addStepWithoutDependencies('card')
+      .withImplementation(() => 'card')
+      .defineFlow('checkout')
+      .addFlowStep('stock')
+      .withFlowAction(async () => {
+        await delay(10);
+        throw new Error('Out of stock');
+      })
+      .addFlowStep('card')
+      .withCompensation((charge: string) => log.push(`refund:${charge}`))
+      .withFlowAction(async () => {
+        await delay(30);
+        log.push('charged');
+        return 'c-1';
+      })
+      .endFlow()
+      .build();
+
+    const error = await workflow.executeAsync('checkout').catch((e: unknown) => e);
+
+    expect((error as Error).message).toBe('Step "stock" failed: Out of stock');
+    expect(log).toEqual(['charged', 'refund:c-1']);
+    expect((error as any).compensations).toEqual({ card: { status: 'compensated' } });
+  });
+
+  it('should compensate synchronous flows', () => {
+    const log: string[] = [];
+
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('a')
+      .withImplementation(() => 'a')
+      .addStepWithoutDependencies('b')
+      .withImplementation(() => 'b')
+      .defineFlow('sync')
+      .addFlowStep('a')
+      .withCompensation((result: string, container) => log.push(`undo:${result}:${container}`))
+      .withFlowAction((a) => `${a}-done`)
+      .addFlowStep('b', ['a'])
+      .withFlowAction(() => {
+        throw new Error('Failed');
+      })
+      .endFlow()
+      .build();
+
+    expect(() => workflow.execute('sync')).toThrow(/Failed/);
+    expect(log).toEqual(['undo:a-done:a']);
+  });
+
+  it('should report asynchronous compensations of synchronous flows without an unhandled rejection', async () => {
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('a')
+      .withImplementation(() => 'a')
+      .addStepWithoutDependencies('b')
+      .withImplementation(() => 'b')
+      .defineFlow('sync')
+      .addFlowStep('a')
+      .withCompensation(async () => {
+        throw new Error('Undo failed');
+      })
+      .withFlowAction(() => 'done')
+      .addFlowStep('b', ['a'])
+      .withFlowAction(() => {
+        throw new Error('Failed');
+      })
+      .endFlow()
+      .build();
+
+    let error: any;
+    const unhandled = await collectUnhandledRejections(() => {
+      try {
+        workflow.execute('sync');
+      } catch (caught) {
+        error = caught;
+      }
+    });
+
+    expect(error.compensations.a.status).toBe('failed');
+    expect(error.compensations.a.error.message).toMatch('Compensation for "a" returned a Promise');
+    expect(unhandled).toEqual([]);
+  });
+
+  it('should check the action result against the compensation', () => {
+    new WorkflowBuilder()
+      .addStepWithoutDependencies('a')
+      .withImplementation(() => 'a')
+      .defineFlow('typed')
+      .addFlowStep('a')
+      .withCompensation((result: number) => result)
+      // @ts-expect-error - the action must return the type the compensation expects
+      .withFlowAction(() => 'not a number')
+      .endFlow();
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect } from '@jest/globals';
+import { ContainerDisposeError, WorkflowBuilder } from '../src';
+import { collectUnhandledRejections } from './utils/testHelpers';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Jest runs tests in a context without the disposal symbols, so they are polyfilled here
+(Symbol as any).dispose ??= Symbol('Symbol.dispose');
+(Symbol as any).asyncDispose ??= Symbol('Symbol.asyncDispose');
+
+interface Pool {
+  id: number;
+  closed: boolean;
+}
+
+function createResourceWorkflow(disposed: string[], state = { version: 1 }) {
+  return new WorkflowBuilder()
+    .addStepWithoutDependencies('config')
+    .withImplementation(() => ({ version: state.version }))
+    .addStep('pool', ['config'])
+    .withDisposer((pool: Pool) => {
+      pool.closed = true;
+      disposed.push(`pool-${pool.id}`);
+    })
+    .withImplementation(({ config }): Pool => ({ id: config.version, closed: false }))
+    .addStep('repository', ['pool'])
+    .withDisposer(() => {
+      disposed.push('repository');
+    })
+    .withImplementation(({ pool }) => ({ pool }))
+    .addStepWithoutDependencies('logger')
+    .withImplementation(() => ({ log: (message: string) => message }));
+}
+
+describe('Container Disposal', () => {
+  it('should dispose containers in reverse topological order', () => {
+    const disposed: string[] = [];
+    const workflow = createResourceWorkflow(disposed).build();
+    const pool = workflow.containers.pool;
+
+    workflow.dispose();
+
+    expect(disposed).toEqual(['repository', 'pool-1']);
+    expect(pool.closed).toBe(true);
+    expect(workflow.containers).toEqual({});
+  });
+
+  it('should dispose objects that implement Symbol.dispose and Symbol.asyncDispose', async () => {
+    const disposed: string[] = [];
+
+    const workflow = await new WorkflowBuilder()
+      .addStepWithoutDependencies('socket')
+      .withImplementation(() => ({
+        [Symbol.asyncDispose]: async () => {
+          await delay(5);
+          disposed.push('socket');
+        }
+      }))
+      .addStep('timer', ['socket'])
+      .withImplementation(() => ({
+        [Symbol.dispose]: () => {
+          disposed.push('timer');
+        }
+      }))
+      .buildAsync();
+
+    await workflow.disposeAsync();
+
+    expect(disposed).toEqual(['timer', 'socket']);
+  });
+
+  it('should reject asynchronous disposers during synchronous disposal', () => {
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('socket')
+      .withDisposer(async () => {})
+      .withImplementation(() => ({}))
+      .build();
+
+    expect(() => workflow.dispose()).toThrow(ContainerDisposeError);
+  });
+
+  it('should not leave an unhandled rejection when an asynchronous disposer fails during synchronous disposal', async () => {
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('socket')
+      .withImplementation(() => ({
+        [Symbol.asyncDispose]: async () => {
+          throw new Error('Cannot close socket');
+        }
+      }))
+      .build();
+
+    const unhandled = await collectUnhandledRejections(() => {
+      expect(() => workflow.dispose()).toThrow('Failed to dispose containers: "socket"');
+    });
+
+    expect(unhandled).toEqual([]);
+  });
+
+  it('should collect errors without stopping the teardown', async () => {
+    const disposed: string[] = [];
+
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('a')
+      .withDisposer(() => {
+        disposed.push('a');
+      })
+      .withImplementation(() => 'a')
+      .addStep('b', ['a'])
+      .withDisposer(async () => {
+        throw new Error('Cannot close b');
+      })
+      .withImplementation(() => 'b')
+      .addStep('c', ['b'])
+      .withDisposer(() => {
+        disposed.push('c');
+      })
+      .withImplementation(() => 'c')
+      .build();
+
+    const error = await workflow.disposeAsync().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContainerDisposeError);
+    expect(error.message).toBe('Failed to dispose containers: "b"');
+    expect((error.errors.b as Error).message).toBe('Cannot close b');
+    expect(disposed).toEqual(['c', 'a']);
+  });
+
+  it('should dispose the containers replaced by a refresh', () => {
+    const disposed: string[] = [];
+    const state = { version: 1 };
+    const workflow = createResourceWorkflow(disposed, state).build();
+
+    state.version = 2;
+    workflow.refresh();
+
+    expect(disposed).toEqual(['repository', 'pool-1']);
+    expect(workflow.containers.pool).toEqual({ id: 2, closed: false });
+  });
+
+  it('should only dispose the containers replaced by an invalidation', async () => {
+    const disposed: string[] = [];
+    const workflow = createResourceWorkflow(disposed).build();
+
+    await workflow.invalidateAsync('repository');
+
+    expect(disposed).toEqual(['repository']);
+  });
+
+  it('should keep the containers when the refresh fails', () => {
+    const disposed: string[] = [];
+    const state = { version: 1 };
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('pool')
+      .withDisposer(() => {
+        disposed.push('pool');
+      })
+      .withImplementation(() => {
+        if (state.version === 2) {
+          throw new Error('Cannot connect');
+        }
+        return { version: state.version };
+      })
+      .build();
+
+    state.version = 2;
+    expect(() => workflow.refresh()).toThrow('Cannot connect');
+
+    expect(disposed).toEqual([]);
+    expect(workflow.containers.pool).toEqual({ version: 1 });
+  });
+
+  it('should dispose the containers built by a failed refresh or build', async () => {
+    const disposed: string[] = [];
+    const state = { version: 1, failRepository: false };
+    const builder = new WorkflowBuilder()
+      .addStepWithoutDependencies('pool')
+      .withDisposer((pool: Pool) => {
+        disposed.push(`pool-${pool.id}`);
+      })
+      .withImplementation((): Pool => ({ id: state.version, closed: false }))
+      .addStep('repository', ['pool'])
+      .withImplementation(async ({ pool }) => {
+        await delay(5);
+        if (state.failRepository) {
+          throw new Error('Cannot open repository');
+        }
+        return { pool };
+      });
+    const workflow = await builder.buildAsync();
+
+    state.version = 2;
+    state.failRepository = true;
+    await expect(workflow.refreshAsync()).rejects.toThrow('Cannot open repository');
+
+    expect(disposed).toEqual(['pool-2']);
+    expect(workflow.containers.pool).toEqual({ id: 1, closed: false });
+
+    state.version = 3;
+    await expect(builder.buildAsync()).rejects.toThrow('Cannot open repository');
+    expect(disposed).toEqual(['pool-2', 'pool-3']);
+  });
+
+  it('should keep the errors of disposing the containers of a failed build on the build error', () => {
+    const builder = new WorkflowBuilder()
+      .addStepWithoutDependencies('pool')
+      .withDisposer(() => {
+        throw new Error('Cannot close pool');
+      })
+      .withImplementation(() => ({}))
+      .addStep('repository', ['pool'])
+      .withImplementation(() => {
+        throw new Error('Cannot open repository');
+      });
+
+    let error: any;
+    try {
+      builder.build();
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error.message).toBe('Step "repository" failed: Cannot open repository');
+    expect(error.disposeErrors.pool.message).toBe('Cannot close pool');
+  });
+
+  it('should check the implementation against the disposer type', () => {
+    new WorkflowBuilder()
+      .addStepWithoutDependencies('pool')
+      .withDisposer((pool: Pool) => pool.closed)
+      // @ts-expect-error - The implementation must return a Pool
+      .withImplementation(() => ({ id: 1 }));
+  });
+});
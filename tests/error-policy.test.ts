@@ -0,0 +1,119 @@
+import { describe, it, expect } from '@jest/globals';
+import { WorkflowBuilder } from '../src';
+
+function createOrderWorkflow(calls: string[]) {
+  return new WorkflowBuilder()
+    .addStepWithoutDependencies('stock')
+    .withImplementation(() => 'stock')
+    .addStepWithoutDependencies('payment')
+    .withImplementation(() => 'payment')
+    .addStepWithoutDependencies('email')
+    .withImplementation(() => 'email')
+    .addStepWithoutDependencies('audit')
+    .withImplementation(() => 'audit')
+    .defineFlow('order')
+    .addFlowStep('stock')
+    .withFlowAction(() => {
+      calls.push('stock');
+      return 'reserved';
+    })
+    .addFlowStep('payment', ['stock'])
+    .withFlowAction(() => {
+      calls.push('payment');
+      throw new Error('Card declined');
+    })
+    .addFlowStep('email', ['payment'])
+    .withFlowAction((_, context) => {
+      calls.push('email');
+      return `sent-${context.payment}`;
+    })
+    .addFlowStep('audit', ['stock'])
+    .withFlowAction(() => {
+      calls.push('audit');
+      return 'logged';
+    })
+    .endFlow()
+    .build();
+}
+
+describe('Error Policies', () => {
+  it('should throw on the first failure by default', () => {
+    const calls: string[] = [];
+    const workflow = createOrderWorkflow(calls);
+
+    expect(() => workflow.execute('order')).toThrow('Step "payment" failed: Card declined');
+    expect(calls).not.toContain('email');
+  });
+
+  it('should keep running every step with the continue policy', () => {
+    const calls: string[] = [];
+    const workflow = createOrderWorkflow(calls);
+
+    const result = workflow.execute('order', undefined, { errorPolicy: 'continue' });
+
+    expect(result.success).toBe(false);
+    expect(calls.sort()).toEqual(['audit', 'email', 'payment', 'stock']);
+    expect(result.results.email).toBe('sent-undefined');
+    expect(result.steps.payment.status).toBe('failed');
+    expect((result.steps.payment.error as Error).message).toBe('Step "payment" failed: Card declined');
+    expect(result.steps.email).toEqual({ status: 'succeeded' });
+  });
+
+  it('should skip dependents of failed steps with the skipDependents policy', async () => {
+    const calls: string[] = [];
+    const workflow = createOrderWorkflow(calls);
+
+    const result = await workflow.executeAsync('order', undefined, { errorPolicy: 'skipDependents' });
+
+    expect(result.success).toBe(false);
+    expect(calls).not.toContain('email');
+    expect(result.results).toEqual({ stock: 'reserved', audit: 'logged' });
+    expect(result.steps).toEqual({
+      stock: { status: 'succeeded' },
+      payment: { status: 'failed', error: expect.any(Error) },
+      email: { status: 'skipped', failedDependency: 'payment' },
+      audit: { status: 'succeeded' }
+    });
+  });
+
+  it('should report the original failure for transitively skipped steps', () => {
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('a')
+      .withImplementation(() => 'a')
+      .addStepWithoutDependencies('b')
+      .withImplementation(() => 'b')
+      .addStepWithoutDependencies('c')
+      .withImplementation(() => 'c')
+      .defineFlow('chain')
+      .addFlowStep('a')
+      .withFlowAction(() => {
+        throw new Error('Broken');
+      })
+      .addFlowStep('b', ['a'])
+      .withFlowAction(() => 'b')
+      .addFlowStep('c', ['b'])
+      .withFlowAction(() => 'c')
+      .endFlow()
+      .build();
+
+    const result = workflow.execute('chain', undefined, { errorPolicy: 'skipDependents' });
+
+    expect(result.steps.c).toEqual({ status: 'skipped', failedDependency: 'a' });
+  });
+
+  it('should report success with statuses when every step succeeds', () => {
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('a')
+      .withImplementation(() => 'a')
+      .defineFlow('ok')
+      .addFlowStep('a')
+      .withFlowAction((a) => a)
+      .endFlow()
+      .build();
+
+    const result = workflow.execute('ok');
+
+    expect(result.success).toBe(true);
+    expect(result.steps).toEqual({ a: { status: 'succeeded' } });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from '@jest/globals';
+import { WorkflowBuilder } from '../src';
+import type { StepErrorEvent, StepSuccessEvent } from '../src';
+import { createDiamondWorkflow } from './utils/testHelpers';
+
+describe('Lifecycle Events', () => {
+  it('should emit build events registered on the builder', () => {
+    const events: string[] = [];
+    const levels: Record<string, number> = {};
+
+    createDiamondWorkflow()
+      .on('flowStart', ({ flowName, isBuild }) => events.push(`flowStart:${flowName}:${isBuild}`))
+      .on('stepStart', ({ stepName, level }) => {
+        events.push(`stepStart:${stepName}`);
+        levels[stepName] = level;
+      })
+      .on('stepSuccess', ({ stepName }) => events.push(`stepSuccess:${stepName}`))
+      .on('flowEnd', ({ success }) => events.push(`flowEnd:${success}`))
+      .build();
+
+    expect(events[0]).toBe('flowStart:__build__:true');
+    expect(events[events.length - 1]).toBe('flowEnd:true');
+    expect(events.filter(e => e.startsWith('stepSuccess'))).toHaveLength(4);
+    expect(levels).toEqual({ a: 0, b: 1, c: 1, d: 2 });
+  });
+
+  it('should emit step events for custom flows with durations and results', async () => {
+    const successes: StepSuccessEvent[] = [];
+
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('a')
+      .withImplementation(() => 'a-data')
+      .defineFlow('slow')
+      .addFlowStep('a')
+      .withFlowAction(async (container) => {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return `slow-${container}`;
+      })
+      .endFlow()
+      .build();
+
+    workflow.on('stepSuccess', (event) => successes.push(event));
+    await workflow.executeAsync('slow');
+
+    expect(successes).toHaveLength(1);
+    expect(successes[0]).toMatchObject({
+      flowName: 'slow',
+      isBuild: false,
+      stepName: 'a',
+      level: 0,
+      attempts: 1,
+      result: 'slow-a-data'
+    });
+    expect(successes[0].durationMs).toBeGreaterThanOrEqual(15);
+  });
+
+  it('should emit step and flow errors', () => {
+    const errors: StepErrorEvent[] = [];
+    let flowSucceeded: boolean | undefined;
+
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('a')
+      .withImplementation(() => 'a-data')
+      .defineFlow('broken')
+      .addFlowStep('a')
+      .withFlowAction(() => {
+        throw new Error('Boom');
+      })
+      .endFlow()
+      .build();
+
+    workflow.on('stepError', (event) => errors.push(event));
+    workflow.on('flowEnd', ({ success }) => { flowSucceeded = success; });
+
+    expect(() => workflow.execute('broken')).toThrow(/Boom/);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].stepName).toBe('a');
+    expect((errors[0].error as Error).message).toBe('Boom');
+    expect(flowSucceeded).toBe(false);
+  });
+
+  it('should stop notifying removed listeners and ignore listener errors', () => {
+    const seen: string[] = [];
+
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('a')
+      .withImplementation(() => 'a-data')
+      .build();
+
+    const unsubscribe = workflow.on('stepStart', ({ stepName }) => seen.push(stepName));
+    workflow.on('stepStart', () => {
+      throw new Error('Listener failure');
+    });
+
+    workflow.refresh();
+    unsubscribe();
+    workflow.refresh();
+
+    expect(seen).toEqual(['a']);
+  });
+});
@@ -164,4 +164,206 @@ describe('Flow Functionality', () => {
       expect(() => builder.build()).toThrow(/does not exist/i);
     });
   });
+
+  describe('Flow Inputs', () => {
+    interface SaveInput {
+      name: string;
+      age: number;
+    }
+
+    it('should pass the execute input to every flow action', () => {
+      const workflow = new WorkflowBuilder()
+        .addStepWithoutDependencies('form')
+        .withImplementation(() => ({ prefix: 'saved' }))
+        .addStepWithoutDependencies('audit')
+        .withImplementation(() => ({ entries: [] as string[] }))
+        .defineFlow('save')
+        .withInput<SaveInput>()
+        .addFlowStep('form')
+        .withFlowAction((form, _, input) => `${form.prefix}-${input.name}`)
+        .addFlowStep('audit', ['form'])
+        .withFlowAction((audit, context, input) => {
+          audit.entries.push(`${context.form}:${input.age}`);
+          return audit.entries.length;
+        })
+        .endFlow()
+        .build();
+
+      const first = workflow.execute('save', { name: 'Ada', age: 36 });
+      expect(first.results.form).toBe('saved-Ada');
+
+      const second = workflow.execute('save', { name: 'Alan', age: 41 });
+      expect(second.results.form).toBe('saved-Alan');
+      expect(workflow.containers.audit.entries).toEqual(['saved-Ada:36', 'saved-Alan:41']);
+    });
+
+    it('should pass the input to async flow actions', async () => {
+      const workflow = new WorkflowBuilder()
+        .addStepWithoutDependencies('a')
+        .withImplementation(() => 'a-data')
+        .defineFlow('async')
+        .withInput<{ suffix: string }>()
+        .addFlowStep('a')
+        .withFlowAction(async (container, _, input) => `${container}-${input.suffix}`)
+        .endFlow()
+        .build();
+
+      const result = await workflow.executeAsync('async', { suffix: 'x' });
+      expect(result.results.a).toBe('a-data-x');
+    });
+
+    it('should type check the input at the execute call site', () => {
+      const workflow = new WorkflowBuilder()
+        .addStepWithoutDependencies('a')
+        .withImplementation(() => 'a-data')
+        .defineFlow('save')
+        .withInput<SaveInput>()
+        .addFlowStep('a')
+        .withFlowAction((_, __, input) => input.age)
+        .endFlow()
+        .defineFlow('plain')
+        .addFlowStep('a')
+        .withFlowAction((container, _, input) => {
+          expect(input).toBeUndefined();
+          return container;
+        })
+        .endFlow()
+        .build();
+
+      expect(() => {
+        // @ts-expect-error - input is required for flows declared withInput
+        workflow.execute('save');
+      }).toThrow();
+      // @ts-expect-error - input must match the declared type
+      workflow.execute('save', { name: 'Ada' });
+
+      expect(workflow.execute('plain').results.a).toBe('a-data');
+    });
+  });
+
+  describe('Typed Flow Registry', () => {
+    it('should type execute results per flow step', async () => {
+      const workflow = new WorkflowBuilder()
+        .addStepWithoutDependencies('a')
+        .withImplementation(() => ({ value: 2 }))
+        .addStepWithoutDependencies('b')
+        .withImplementation(() => 'b-data')
+        .defineFlow('calculate')
+        .addFlowStep('a')
+        .withFlowAction((a) => a.value * 10)
+        .addFlowStep('b', ['a'])
+        .withFlowAction((b, context) => ({ label: `${b}:${context.a}` }))
+        .endFlow()
+        .build();
+
+      const result = workflow.execute('calculate');
+      const total: number = result.results.a;
+      const label: string = result.results.b.label;
+      expect(total).toBe(20);
+      expect(label).toBe('b-data:20');
+
+      const asyncResult = await workflow.executeAsync('calculate');
+      const asyncLabel: string = asyncResult.results.b.label;
+      expect(asyncLabel).toBe('b-data:20');
+
+      // @ts-expect-error - results of other steps are not part of the flow
+      expect(result.results.c).toBeUndefined();
+    });
+
+    it('should reject unknown flow names at compile time', () => {
+      const workflow = new WorkflowBuilder()
+        .addStepWithoutDependencies('a')
+        .withImplementation(() => 'a-data')
+        .defineFlow('known')
+        .addFlowStep('a')
+        .withFlowAction((a) => a)
+        .endFlow()
+        .build();
+
+      expect(() => {
+        // @ts-expect-error - flow was never defined
+        workflow.execute('unknown');
+      }).toThrow(/does not exist/);
+    });
+  });
+
+  describe('Conditional Steps', () => {
+    function createSaveWorkflow(notifications: string[]) {
+      return new WorkflowBuilder()
+        .addStepWithoutDependencies('store')
+        .withImplementation(() => ({
+          save: (value: string) => ({ changed: value !== 'same' })
+        }))
+        .addStepWithoutDependencies('notifier')
+        .withImplementation(() => ({
+          send: (message: string) => {
+            notifications.push(message);
+            return message;
+          }
+        }))
+        .addStepWithoutDependencies('summary')
+        .withImplementation(() => 'summary')
+        .defineFlow('save')
+        .withInput<string>()
+        .addFlowStep('store')
+        .withFlowAction((store, _, value) => store.save(value))
+        .addFlowStep('notifier', ['store'])
+        .when((_, context) => context.store.changed)
+        .withFlowAction((notifier, _, value) => notifier.send(`changed:${value}`))
+        .addFlowStep('summary', ['notifier'])
+        .withFlowAction((_, context) => {
+          const sent: string | undefined = context.notifier;
+          // @ts-expect-error - conditional step results may be undefined
+          const unchecked: string = context.notifier;
+          return sent ?? unchecked ?? 'nothing sent';
+        })
+        .endFlow()
+        .build();
+    }
+
+    it('should run a conditional step when its predicate holds', () => {
+      const notifications: string[] = [];
+      const workflow = createSaveWorkflow(notifications);
+
+      const result = workflow.execute('save', 'new');
+
+      expect(notifications).toEqual(['changed:new']);
+      expect(result.results.summary).toBe('changed:new');
+      expect(result.steps.notifier).toEqual({ status: 'succeeded' });
+    });
+
+    it('should report skipped steps and let dependents see undefined', async () => {
+      const notifications: string[] = [];
+      const workflow = createSaveWorkflow(notifications);
+
+      const result = await workflow.executeAsync('save', 'same');
+
+      expect(notifications).toEqual([]);
+      expect(result.success).toBe(true);
+      expect(result.steps.notifier).toEqual({ status: 'skipped', skippedByCondition: true });
+      expect('notifier' in result.results).toBe(false);
+      expect(result.results.summary).toBe('nothing sent');
+    });
+
+    it('should support if/else branches with when and unless', () => {
+      const workflow = new WorkflowBuilder()
+        .addStepWithoutDependencies('premium')
+        .withImplementation(() => 'premium')
+        .addStepWithoutDependencies('standard')
+        .withImplementation(() => 'standard')
+        .defineFlow('ship')
+        .withInput<{ vip: boolean }>()
+        .addFlowStep('premium')
+        .when((_, __, input) => input.vip)
+        .withFlowAction((premium) => `${premium}-shipping`)
+        .addFlowStep('standard')
+        .unless((_, __, input) => input.vip)
+        .withFlowAction((standard) => `${standard}-shipping`)
+        .endFlow()
+        .build();
+
+      expect(workflow.execute('ship', { vip: true }).results).toEqual({ premium: 'premium-shipping' });
+      expect(workflow.execute('ship', { vip: false }).results).toEqual({ standard: 'standard-shipping' });
+    });
+  });
 });
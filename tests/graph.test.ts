@@ -0,0 +1,111 @@
+import { describe, it, expect } from '@jest/globals';
+import { WorkflowBuilder, toDot, toMermaid } from '../src';
+
+function createShopWorkflow() {
+  return new WorkflowBuilder()
+    .addStepWithoutDependencies('config')
+    .withImplementation(() => ({}))
+    .addStep('db', ['config'])
+    .withImplementation(() => ({}))
+    .addStep('cache', ['config'])
+    .withImplementation(() => ({}))
+    .addStep('orders', ['db', 'cache'])
+    .withImplementation(() => ({}))
+    .defineFlow('checkout')
+    .addFlowStep('db')
+    .withFlowAction(() => 'saved')
+    .addFlowStep('orders', ['db'])
+    .withFlowAction(() => 'placed')
+    .endFlow()
+    .build();
+}
+
+describe('Graph Export', () => {
+  it('should render the build graph as Mermaid grouped by level', () => {
+    expect(toMermaid(createShopWorkflow())).toBe([
+      'flowchart TD',
+      '  subgraph level_0["Level 0"]',
+      '    step_0["config"]',
+      '  end',
+      '  subgraph level_1["Level 1"]',
+      '    step_1["db"]',
+      '    step_2["cache"]',
+      '  end',
+      '  subgraph level_2["Level 2"]',
+      '    step_3["orders"]',
+      '  end',
+      '  step_0 --> step_1',
+      '  step_0 --> step_2',
+      '  step_1 --> step_3',
+      '  step_2 --> step_3'
+    ].join('\n'));
+  });
+
+  it('should render a flow as Mermaid with the containers its steps act on', () => {
+    expect(toMermaid(createShopWorkflow(), 'checkout')).toBe([
+      'flowchart TD',
+      '  subgraph level_0["Level 0"]',
+      '    step_0["db"]',
+      '  end',
+      '  subgraph level_1["Level 1"]',
+      '    step_1["orders"]',
+      '  end',
+      '  step_0 --> step_1',
+      '  subgraph containers["Containers"]',
+      '    container_0[("db")]',
+      '    container_1[("orders")]',
+      '  end',
+      '  container_0 -.->|acts on| step_0',
+      '  container_1 -.->|acts on| step_1'
+    ].join('\n'));
+  });
+
+  it('should render the build graph as DOT grouped by level', () => {
+    expect(toDot(createShopWorkflow())).toBe([
+      'digraph "build" {',
+      '  rankdir=TB;',
+      '  subgraph cluster_level_0 {',
+      '    label="Level 0";',
+      '    "config";',
+      '  }',
+      '  subgraph cluster_level_1 {',
+      '    label="Level 1";',
+      '    "db";',
+      '    "cache";',
+      '  }',
+      '  subgraph cluster_level_2 {',
+      '    label="Level 2";',
+      '    "orders";',
+      '  }',
+      '  "config" -> "db";',
+      '  "config" -> "cache";',
+      '  "db" -> "orders";',
+      '  "cache" -> "orders";',
+      '}'
+    ].join('\n'));
+  });
+
+  it('should render a flow as DOT with the containers its steps act on', () => {
+    const dot = toDot(createShopWorkflow(), 'checkout');
+
+    expect(dot).toContain('digraph "checkout" {');
+    expect(dot).toContain('    "container:db" [label="db"];');
+    expect(dot).toContain('  "container:orders" -> "orders" [style=dashed, label="acts on"];');
+    expect(dot).toContain('  "db" -> "orders";');
+  });
+
+  it('should escape step names', () => {
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('say "hi"')
+      .withImplementation(() => 'hi')
+      .build();
+
+    expect(toMermaid(workflow)).toContain('step_0["say #quot;hi#quot;"]');
+    expect(toDot(workflow)).toContain('"say \\"hi\\"";');
+  });
+
+  it('should reject unknown flows', () => {
+    // @ts-expect-error - Only defined flow names are accepted
+    expect(() => toMermaid(createShopWorkflow(), 'unknown')).toThrow('Flow "unknown" does not exist');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from '@jest/globals';
+import { WorkflowBuilder, collectDependents } from '../src';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function createAppWorkflow(calls: Record<string, number>, settings: { url: string }) {
+  const count = (name: string) => {
+    calls[name] = (calls[name] ?? 0) + 1;
+  };
+
+  return new WorkflowBuilder()
+    .addStepWithoutDependencies('config')
+    .withImplementation(() => {
+      count('config');
+      return { url: settings.url };
+    })
+    .addStepWithoutDependencies('logger')
+    .withImplementation(() => {
+      count('logger');
+      return { log: (message: string) => message };
+    })
+    .addStep('client', ['config'])
+    .withImplementation(({ config }) => {
+      count('client');
+      return { baseUrl: config.url };
+    })
+    .addStep('cache', ['client', 'logger'])
+    .withImplementation(({ client }) => {
+      count('cache');
+      return { source: client.baseUrl };
+    });
+}
+
+describe('Invalidation', () => {
+  it('should recompute a container and its transitive dependents', () => {
+    const calls: Record<string, number> = {};
+    const settings = { url: 'https://a.example' };
+    const workflow = createAppWorkflow(calls, settings).build();
+    const logger = workflow.containers.logger;
+
+    settings.url = 'https://b.example';
+    const recomputed = workflow.invalidate('config');
+
+    expect(recomputed).toEqual(['config', 'client', 'cache']);
+    expect(workflow.containers.cache.source).toBe('https://b.example');
+    expect(workflow.containers.logger).toBe(logger);
+    expect(calls).toEqual({ config: 2, logger: 1, client: 2, cache: 2 });
+  });
+
+  it('should only recompute the step itself when nothing depends on it', () => {
+    const calls: Record<string, number> = {};
+    const workflow = createAppWorkflow(calls, { url: 'https://a.example' }).build();
+
+    expect(workflow.invalidate('cache')).toEqual(['cache']);
+    expect(calls).toEqual({ config: 1, logger: 1, client: 1, cache: 2 });
+  });
+
+  it('should recompute containers asynchronously', async () => {
+    let version = 1;
+    const workflow = await new WorkflowBuilder()
+      .addStepWithoutDependencies('token')
+      .withImplementation(async () => {
+        await delay(5);
+        return `token-${version}`;
+      })
+      .addStep('api', ['token'])
+      .withImplementation(async ({ token }) => ({ token }))
+      .buildAsync();
+
+    version = 2;
+    const recomputed = await workflow.invalidateAsync('token');
+
+    expect(recomputed).toEqual(['token', 'api']);
+    expect(workflow.containers.api).toEqual({ token: 'token-2' });
+  });
+
+  it('should throw for unknown steps', () => {
+    const workflow = createAppWorkflow({}, { url: 'https://a.example' }).build();
+
+    // @ts-expect-error - Unknown step names are rejected at compile time
+    expect(() => workflow.invalidate('unknown')).toThrow('Step "unknown" does not exist');
+  });
+
+  it('should collect dependents from a dependency graph', () => {
+    const dependencies = { a: [], b: ['a'], c: ['b'], d: [] };
+
+    expect(collectDependents(dependencies, 'a')).toEqual(['a', 'b', 'c']);
+    expect(collectDependents(dependencies, 'd')).toEqual(['d']);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect } from '@jest/globals';
+import { AsyncStepError, WorkflowBuilder } from '../src';
+import { collectUnhandledRejections } from './utils/testHelpers';
+
+function createServiceBuilder(log: string[]) {
+  return new WorkflowBuilder()
+    .addStepWithoutDependencies('config')
+    .withImplementation(() => {
+      log.push('config');
+      return { url: 'postgres://localhost' };
+    })
+    .addStep('database', ['config'])
+    .withImplementation(({ config }) => {
+      log.push('database');
+      return { url: config.url };
+    })
+    .addStepWithoutDependencies('mailer')
+    .withImplementation(() => {
+      log.push('mailer');
+      return { send: (to: string) => `Sent to ${to}` };
+    })
+    .addStep('users', ['database'])
+    .withImplementation(({ database }) => {
+      log.push('users');
+      return { find: (id: string) => `${id} from ${database.url}` };
+    });
+}
+
+describe('Lazy Containers', () => {
+  it('should only build the accessed containers and their dependencies', () => {
+    const log: string[] = [];
+    const workflow = createServiceBuilder(log).buildLazy();
+
+    expect(log).toEqual([]);
+
+    expect(workflow.containers.users.find('user-1')).toBe('user-1 from postgres://localhost');
+    expect(log).toEqual(['config', 'database', 'users']);
+
+    expect(workflow.get('mailer').send('ada')).toBe('Sent to ada');
+    expect(log).toEqual(['config', 'database', 'users', 'mailer']);
+  });
+
+  it('should memoize the built containers', () => {
+    const log: string[] = [];
+    const workflow = createServiceBuilder(log).buildLazy();
+
+    const database = workflow.get('database');
+    expect(workflow.containers.database).toBe(database);
+    workflow.get('users');
+
+    expect(log).toEqual(['config', 'database', 'users']);
+    expect(() => workflow.get('cache' as 'users')).toThrow('Step "cache" does not exist');
+  });
+
+  it('should build asynchronous steps with getAsync, once for concurrent reads', async () => {
+    let connections = 0;
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('config')
+      .withImplementation(() => ({ url: 'postgres://localhost' }))
+      .addStep('database', ['config'])
+      .withImplementation(async ({ config }) => `${config.url}#${++connections}`)
+      .addStep('users', ['database'])
+      .withImplementation(({ database }) => ({ database: `${database}` }))
+      .buildLazy();
+
+    const [users, database] = await Promise.all([workflow.getAsync('users'), workflow.getAsync('database')]);
+
+    expect(users).toEqual({ database: 'postgres://localhost#1' });
+    expect(database).toBe(workflow.containers.database);
+    expect(connections).toBe(1);
+  });
+
+  it('should report a clear error when an asynchronous step is read synchronously', () => {
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('database')
+      .withImplementation(async () => 'postgres://localhost')
+      .addStep('users', ['database'])
+      .withImplementation(({ database }) => ({ database }))
+      .buildLazy();
+
+    let error: unknown;
+    try {
+      workflow.containers.users;
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(AsyncStepError);
+    expect((error as AsyncStepError).message).toBe(
+      'Container "users" cannot be built synchronously because step "database" is asynchronous. Use getAsync("users") instead.'
+    );
+    expect((error as AsyncStepError).stepName).toBe('database');
+  });
+
+  it('should not leave an unhandled rejection when an asynchronous step is read synchronously', async () => {
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('database')
+      .withImplementation(async () => {
+        throw new Error('Connection refused');
+      })
+      .buildLazy();
+
+    const unhandled = await collectUnhandledRejections(() => {
+      expect(() => workflow.get('database')).toThrow(AsyncStepError);
+    });
+
+    expect(unhandled).toEqual([]);
+    await expect(workflow.getAsync('database')).rejects.toThrow('Step "database" failed: Connection refused');
+  });
+
+  it('should keep building an asynchronous step read synchronously for getAsync', async () => {
+    const log: string[] = [];
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('config')
+      .withImplementation(() => {
+        log.push('config');
+        return { url: 'postgres://localhost' };
+      })
+      .addStep('database', ['config'])
+      .withImplementation(async ({ config }) => {
+        log.push('database');
+        return { url: config.url, id: log.length };
+      })
+      .addStep('users', ['database'])
+      .withImplementation(({ database }) => ({ database }))
+      .buildLazy();
+
+    expect(() => workflow.containers.users).toThrow(AsyncStepError);
+    expect(() => workflow.get('database')).toThrow(AsyncStepError);
+
+    const users = await workflow.getAsync('users');
+
+    expect(log).toEqual(['config', 'database']);
+    expect(workflow.containers.database).toEqual({ url: 'postgres://localhost', id: 2 });
+    expect(users).toEqual({ database: workflow.containers.database });
+  });
+
+  it('should only recompute the built dependents of an invalidated container', () => {
+    const log: string[] = [];
+    const workflow = createServiceBuilder(log).buildLazy();
+
+    workflow.get('database');
+    log.length = 0;
+
+    expect(workflow.invalidate('config')).toEqual(['config', 'database']);
+    expect(log).toEqual(['config', 'database']);
+
+    // users was never read, it is built from the new database on first read
+    expect(workflow.get('users').find('user-1')).toBe('user-1 from postgres://localhost');
+    expect(log).toEqual(['config', 'database', 'users']);
+  });
+
+  it('should build the containers of the flow steps before executing a flow', async () => {
+    const log: string[] = [];
+    const workflow = createServiceBuilder(log)
+      .defineFlow('signup')
+      .withInput<{ id: string }>()
+      .addFlowStep('users')
+      .withFlowAction((users, _, input) => users.find(input.id))
+      .endFlow()
+      .buildLazy();
+
+    expect(workflow.execute('signup', { id: 'user-1' }).results.users).toBe('user-1 from postgres://localhost');
+    expect((await workflow.executeAsync('signup', { id: 'user-2' })).results.users).toBe('user-2 from postgres://localhost');
+    expect(log).toEqual(['config', 'database', 'users']);
+  });
+
+  it('should leave the containers that were not built out of snapshots', () => {
+    const workflow = createServiceBuilder([]).buildLazy();
+
+    workflow.get('database');
+
+    expect(Object.keys(workflow.getSnapshot().containers)).toEqual(['config', 'database']);
+    expect(Object.keys(workflow.containers)).toEqual(['config', 'database']);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from '@jest/globals';
+import { SchemaValidationError, WorkflowBuilder, loadWorkflow, serializeWorkflow } from '../src';
+import type { WorkflowDocument } from '../src';
+
+const registry = {
+  loadConfig: () => ({ currency: 'EUR' }),
+  createPricing: ({ config }: { config: { currency: string } }) => ({
+    price: (amount: number) => `${amount} ${config.currency}`
+  }),
+  createCart: () => ({ items: [10, 20] }),
+  totalCart: (cart: { items: number[] }) => cart.items.reduce((sum, item) => sum + item, 0),
+  priceTotal: (pricing: { price: (amount: number) => string }, context: { cart: number }) => pricing.price(context.cart),
+  hasItems: (cart: { items: number[] }) => cart.items.length > 0,
+  totalKey: (_: unknown, context: { cart: number }) => String(context.cart),
+  releaseCart: () => {}
+};
+
+const document: WorkflowDocument = {
+  steps: {
+    // Declared before their dependencies on purpose, the loader orders them
+    pricing: { implementation: 'createPricing', dependencies: ['config'] },
+    config: { implementation: 'loadConfig' },
+    cart: { implementation: 'createCart', disposer: 'releaseCart', retry: { maxAttempts: 2 } }
+  },
+  flows: {
+    checkout: {
+      steps: {
+        pricing: { action: 'priceTotal', dependencies: ['cart'], cache: { key: 'totalKey', ttlMs: 60000 } },
+        cart: { action: 'totalCart', condition: 'hasItems', timeoutMs: 1000 }
+      }
+    }
+  }
+};
+
+describe('Declarative Workflows', () => {
+  it('should load a workflow document into a builder', () => {
+    const workflow = loadWorkflow(document, registry).build();
+
+    expect(workflow.containers.pricing.price(5)).toBe('5 EUR');
+    expect(workflow.dependencies.pricing).toEqual(['config']);
+    expect(workflow.execute('checkout').results.pricing).toBe('30 EUR');
+    expect(workflow.execute('checkout').steps.pricing.cache).toBe('hit');
+  });
+
+  it('should load JSON text and text parsed by a custom parser', () => {
+    const json = JSON.stringify(document);
+    expect(loadWorkflow(json, registry).build().execute('checkout').results.cart).toBe(30);
+
+    const parse = (text: string) => (text === 'document.yaml' ? document : {});
+    expect(loadWorkflow('document.yaml', registry, { parse }).build().containers.config).toEqual({ currency: 'EUR' });
+  });
+
+  it('should report unknown implementations', () => {
+    expect(() => loadWorkflow({ steps: { config: { implementation: 'missing' } } }, registry))
+      .toThrow('Implementation "missing" used by step "config" is not registered');
+  });
+
+  it('should reuse the builder validation', () => {
+    expect(() => loadWorkflow({ steps: { pricing: { implementation: 'createPricing', dependencies: ['config'] } } }, registry))
+      .toThrow('Dependency "config" does not exist for step "pricing"');
+
+    expect(() => loadWorkflow({
+      steps: {
+        a: { implementation: 'loadConfig', dependencies: ['b'] },
+        b: { implementation: 'loadConfig', dependencies: ['a'] }
+      }
+    }, registry)).toThrow('Circular dependency detected in workflow');
+
+    const builder = loadWorkflow({
+      steps: { config: { implementation: 'loadConfig' } },
+      flows: { broken: { steps: { config: { action: 'totalCart', dependencies: ['cart'] } } } }
+    }, registry);
+    expect(() => builder.build()).toThrow('Flow "broken" step "config" depends on "cart" which does not exist in the main workflow');
+  });
+
+  it('should reject malformed documents', () => {
+    expect(() => loadWorkflow('{"steps": []}', registry)).toThrow('Invalid workflow document: "steps" must be an object');
+    expect(() => loadWorkflow({ steps: { config: {} } } as unknown as WorkflowDocument, registry))
+      .toThrow('Invalid workflow document: step "config" must name its implementation');
+  });
+
+  it('should serialize a builder back to a document', () => {
+    const serialized = serializeWorkflow(loadWorkflow(document, registry), registry);
+
+    expect(serialized).toEqual({
+      steps: {
+        config: { implementation: 'loadConfig', dependencies: [] },
+        pricing: { implementation: 'createPricing', dependencies: ['config'] },
+        cart: { implementation: 'createCart', dependencies: [], disposer: 'releaseCart', retry: { maxAttempts: 2 } }
+      },
+      flows: {
+        checkout: {
+          steps: {
+            pricing: { action: 'priceTotal', dependencies: ['cart'], cache: { key: 'totalKey', ttlMs: 60000 } },
+            cart: { action: 'totalCart', dependencies: [], condition: 'hasItems', timeoutMs: 1000 }
+          }
+        }
+      }
+    });
+    expect(loadWorkflow(serialized, registry).build().execute('checkout').results.pricing).toBe('30 EUR');
+  });
+
+  it('should serialize builders defined with the fluent API', () => {
+    const builder = new WorkflowBuilder()
+      .addStepWithoutDependencies('config')
+      .withImplementation(registry.loadConfig);
+
+    expect(serializeWorkflow(builder, registry)).toEqual({
+      steps: { config: { implementation: 'loadConfig', dependencies: [] } },
+      flows: {}
+    });
+    expect(() => serializeWorkflow(builder, {}))
+      .toThrow('The implementation of step "config" is not registered, so it cannot be serialized');
+  });
+
+  it('should serialize and load the type guards of build steps and flow steps', () => {
+    const isNumber = (value: unknown): value is number => typeof value === 'number';
+    const schemaRegistry = {
+      isNumber,
+      createCount: () => 3,
+      readCount: (count: number) => count,
+      readInvalid: () => 'oops'
+    };
+    const builder = new WorkflowBuilder()
+      .addStepWithoutDependencies('count')
+      .withSchema(isNumber)
+      .withImplementation(schemaRegistry.createCount)
+      .defineFlow('read')
+      .addFlowStep('count')
+      .withSchema(isNumber)
+      .withFlowAction(schemaRegistry.readCount)
+      .endFlow();
+
+    const serialized = serializeWorkflow(builder, schemaRegistry);
+    expect(serialized.steps.count).toEqual({ implementation: 'createCount', dependencies: [], schema: 'isNumber' });
+    expect(serialized.flows?.read.steps.count).toEqual({ action: 'readCount', dependencies: [], schema: 'isNumber' });
+    expect(loadWorkflow(serialized, schemaRegistry).build().execute('read').results.count).toBe(3);
+
+    // Loaded steps returning invalid results are rejected by their schema
+    const invalidStep = { ...serialized, steps: { count: { ...serialized.steps.count, implementation: 'readInvalid' } } };
+    expect(() => loadWorkflow(invalidStep, schemaRegistry).build()).toThrow(SchemaValidationError);
+
+    const invalidAction = { ...serialized, flows: { read: { steps: { count: { action: 'readInvalid', schema: 'isNumber' } } } } };
+    expect(() => loadWorkflow(invalidAction, schemaRegistry).build().execute('read'))
+      .toThrow('Result of step "count" does not match its schema at result: Rejected by the type guard');
+  });
+
+  it('should reject schemas that are not type guards', () => {
+    const builder = new WorkflowBuilder()
+      .addStepWithoutDependencies('config')
+      .withSchema({ parse: (value: unknown) => value as { currency: string } })
+      .withImplementation(registry.loadConfig);
+
+    expect(() => serializeWorkflow(builder, registry))
+      .toThrow('The schema of step "config" is not a type guard, so it cannot be serialized');
+  });
+});
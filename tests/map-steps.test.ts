@@ -0,0 +1,144 @@
+import { describe, it, expect } from '@jest/globals';
+import { AsyncStepError, MapStepError, WorkflowBuilder } from '../src';
+import { collectUnhandledRejections } from './utils/testHelpers';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function createImportWorkflow(failOn: string[] = []) {
+  return new WorkflowBuilder()
+    .addStepWithoutDependencies('source')
+    .withImplementation(() => ({
+      list: (prefix: string) => ({ items: ['1', '2', '3', '4'].map(id => `${prefix}${id}`) })
+    }))
+    .addStepWithoutDependencies('processor')
+    .withImplementation(() => ({
+      process: (id: string) => {
+        if (failOn.includes(id)) {
+          throw new Error(`Cannot process ${id}`);
+        }
+        return id.toUpperCase();
+      }
+    }))
+    .defineFlow('import')
+    .withInput<string>()
+    .addFlowStep('source')
+    .withFlowAction((source, _, prefix) => source.list(prefix))
+    .addFlowMapStep('processor', ['source'], (context) => context.source.items)
+    .withFlowAction((processor, item) => processor.process(item))
+    .endFlow()
+    .build();
+}
+
+describe('Map Steps', () => {
+  it('should run the action once per item and gather the results', () => {
+    const workflow = createImportWorkflow();
+
+    const result = workflow.execute('import', 'id-');
+    const processed: string[] = result.results.processor;
+
+    expect(processed).toEqual(['ID-1', 'ID-2', 'ID-3', 'ID-4']);
+    expect(result.items.processor).toHaveLength(4);
+    expect(result.items.processor[0]).toEqual({ status: 'succeeded', attempts: 1, result: 'ID-1' });
+  });
+
+  it('should track item errors separately and process every item', async () => {
+    const workflow = createImportWorkflow(['x2', 'x4']);
+
+    const result = await workflow.executeAsync('import', 'x', { errorPolicy: 'continue' });
+
+    expect(result.success).toBe(false);
+    expect(result.items.processor.map(item => item.status))
+      .toEqual(['succeeded', 'failed', 'succeeded', 'failed']);
+    expect((result.items.processor[1].error as Error).message).toBe('Cannot process x2');
+
+    const stepError = result.steps.processor.error as Error & { originalError: MapStepError };
+    expect(stepError.message).toBe('Step "processor" failed: 2 of 4 items failed');
+    expect(stepError.originalError).toBeInstanceOf(MapStepError);
+  });
+
+  it('should respect the concurrency limit in executeAsync', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('worker')
+      .withImplementation(() => 'worker')
+      .defineFlow('batch')
+      .withInput<number[]>()
+      .addFlowMapStep('worker', [], (_, __, values) => values, { concurrency: 2 })
+      .withFlowAction(async (_, value, __, ___, { index }) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await delay(10);
+        running--;
+        return `${index}:${value * 2}`;
+      })
+      .endFlow()
+      .build();
+
+    const result = await workflow.executeAsync('batch', [1, 2, 3, 4, 5]);
+
+    expect(result.results.worker).toEqual(['0:2', '1:4', '2:6', '3:8', '4:10']);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should retry items individually', async () => {
+    const calls: Record<number, number> = {};
+
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('worker')
+      .withImplementation(() => 'worker')
+      .defineFlow('batch')
+      .addFlowMapStep('worker', [], () => [1, 2])
+      .withFlowAction(async (_, value) => {
+        calls[value] = (calls[value] ?? 0) + 1;
+        if (value === 2 && calls[value] === 1) {
+          throw new Error('Flaky');
+        }
+        return value;
+      }, { retry: { maxAttempts: 2 } })
+      .endFlow()
+      .build();
+
+    const result = await workflow.executeAsync('batch');
+
+    expect(result.results.worker).toEqual([1, 2]);
+    expect(calls).toEqual({ 1: 1, 2: 2 });
+    expect(result.items.worker.map(item => item.attempts)).toEqual([1, 2]);
+    expect(result.attempts.worker).toBe(2);
+  });
+
+  it('should produce an empty array when there are no items', () => {
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('worker')
+      .withImplementation(() => 'worker')
+      .defineFlow('batch')
+      .addFlowMapStep('worker', [], () => [] as string[])
+      .withFlowAction((_, item) => item.length)
+      .endFlow()
+      .build();
+
+    expect(workflow.execute('batch').results.worker).toEqual([]);
+  });
+
+  it('should fail asynchronous item actions in execute without an unhandled rejection', async () => {
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('worker')
+      .withImplementation(() => 'worker')
+      .defineFlow('batch')
+      .addFlowMapStep('worker', [], () => ['a', 'b'])
+      .withFlowAction(async (_, item) => {
+        throw new Error(`Cannot process ${item}`);
+      })
+      .endFlow()
+      .build();
+
+    let result: ReturnType<typeof workflow.execute> | undefined;
+    const unhandled = await collectUnhandledRejections(() => {
+      result = workflow.execute('batch', undefined, { errorPolicy: 'continue' });
+    });
+
+    expect(result?.items.worker.map(item => item.error)).toEqual([expect.any(AsyncStepError), expect.any(AsyncStepError)]);
+    expect(unhandled).toEqual([]);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from '@jest/globals';
+import { WorkflowBuilder, defineModule } from '../src';
+import type { StepMiddleware } from '../src';
+
+function createOrderBuilder(log: string[]) {
+  const tracing: StepMiddleware = (ctx, next) => {
+    log.push(`enter ${ctx.stepName}`);
+    try {
+      return next();
+    } finally {
+      log.push(`leave ${ctx.stepName}`);
+    }
+  };
+
+  return new WorkflowBuilder()
+    .use(tracing)
+    .use((ctx, next) => {
+      log.push(`inner ${ctx.stepName}`);
+      return next();
+    })
+    .addStepWithoutDependencies('config')
+    .withImplementation(() => ({ currency: 'EUR' }))
+    .addStep('orders', ['config'])
+    .withImplementation(({ config }) => ({ format: (total: number) => `${total} ${config.currency}` }))
+    .defineFlow('place')
+    .withInput<{ total: number }>()
+    .addFlowStep('orders')
+    .withFlowAction((orders, _, input) => orders.format(input.total))
+    .endFlow();
+}
+
+describe('Step Middleware', () => {
+  it('should wrap every build step and flow action in the order middleware were added', () => {
+    const log: string[] = [];
+    const workflow = createOrderBuilder(log).build();
+
+    expect(log).toEqual([
+      'enter config', 'inner config', 'leave config',
+      'enter orders', 'inner orders', 'leave orders'
+    ]);
+
+    log.length = 0;
+    expect(workflow.execute('place', { total: 5 }).results.orders).toBe('5 EUR');
+    expect(log).toEqual(['enter orders', 'inner orders', 'leave orders']);
+  });
+
+  it('should compose the same way in executeAsync', async () => {
+    const log: string[] = [];
+    const workflow = await new WorkflowBuilder()
+      .use(async (ctx, next) => {
+        log.push(`enter ${ctx.stepName}`);
+        const result = await next();
+        log.push(`leave ${ctx.stepName}`);
+        return result;
+      })
+      .use((ctx, next) => {
+        log.push(`inner ${ctx.stepName}`);
+        return next();
+      })
+      .addStepWithoutDependencies('config')
+      .withImplementation(async () => ({ currency: 'EUR' }))
+      .buildAsync();
+
+    expect(log).toEqual(['enter config', 'inner config', 'leave config']);
+    expect(workflow.containers.config).toEqual({ currency: 'EUR' });
+  });
+
+  it('should pass the step, inputs and run metadata', async () => {
+    const contexts: unknown[] = [];
+    const workflow = createOrderBuilder([])
+      .use((ctx, next) => {
+        contexts.push({ ...ctx, context: { ...ctx.context }, execution: { attempt: ctx.execution.attempt } });
+        return next();
+      })
+      .build();
+
+    contexts.length = 0;
+    await workflow.executeAsync('place', { total: 5 });
+
+    expect(contexts).toEqual([{
+      flowName: 'place',
+      stepName: 'orders',
+      isBuild: false,
+      input: { total: 5 },
+      container: workflow.containers.orders,
+      context: {},
+      execution: { attempt: 1 }
+    }]);
+  });
+
+  it('should short-circuit steps, transform results and rethrow errors', () => {
+    const workflow = createOrderBuilder([])
+      .use((ctx, next) => {
+        if (ctx.flowName === 'place' && (ctx.input as { total: number }).total < 0) {
+          throw new Error('Negative totals are not allowed');
+        }
+        if (ctx.flowName === 'place' && (ctx.input as { total: number }).total === 0) {
+          return 'nothing to place';
+        }
+        const result = next();
+        return typeof result === 'string' ? `${result} (checked)` : result;
+      })
+      .build();
+
+    expect(workflow.execute('place', { total: 5 }).results.orders).toBe('5 EUR (checked)');
+    expect(workflow.execute('place', { total: 0 }).results.orders).toBe('nothing to place');
+    expect(() => workflow.execute('place', { total: -1 })).toThrow('Step "orders" failed: Negative totals are not allowed');
+  });
+
+  it('should keep use available for modules', () => {
+    const log: string[] = [];
+    const auditModule = defineModule('audit', (builder: WorkflowBuilder) => builder
+      .addStepWithoutDependencies('auditLog')
+      .withImplementation(() => [] as string[])
+    );
+
+    const workflow = createOrderBuilder(log)
+      .use(auditModule, { namespace: 'audit' })
+      .build();
+
+    expect(workflow.containers['audit.auditLog']).toEqual([]);
+    expect(log).toContain('enter audit.auditLog');
+  });
+});
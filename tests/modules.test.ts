@@ -0,0 +1,89 @@
+import { describe, it, expect } from '@jest/globals';
+import { WorkflowBuilder, defineModule } from '../src';
+
+interface Config {
+  issuer: string;
+}
+
+const authModule = defineModule('auth', (builder: WorkflowBuilder<{ config: Config }>) => builder
+  .addStep('tokens', ['config'])
+  .withImplementation(({ config }) => ({ issue: (userId: string) => `${config.issuer}:${userId}` }))
+  .addStep('user', ['tokens'])
+  .withImplementation(({ tokens }) => ({ id: 'user-1', token: tokens.issue('user-1') }))
+  .defineFlow('login')
+  .addFlowStep('config')
+  .withFlowAction(config => config.issuer)
+  .addFlowStep('user', ['config'])
+  .withFlowAction((user, context) => `${user.id}@${context.config}`)
+  .endFlow()
+);
+
+function createHost() {
+  return new WorkflowBuilder()
+    .addStepWithoutDependencies('config')
+    .withImplementation((): Config => ({ issuer: 'app' }));
+}
+
+describe('Workflow Modules', () => {
+  it('should add the steps and flows of a module', () => {
+    const workflow = createHost()
+      .use(authModule)
+      .addStep('greeting', ['user'])
+      .withImplementation(({ user }) => `Hello ${user.id}`)
+      .build();
+
+    expect(workflow.containers.user.token).toBe('app:user-1');
+    expect(workflow.containers.greeting).toBe('Hello user-1');
+    expect(workflow.execute('login').results.user).toBe('user-1@app');
+  });
+
+  it('should namespace the steps and flows of a module', () => {
+    const workflow = createHost()
+      .use(authModule, { namespace: 'auth' })
+      .addStep('greeting', ['auth.user'])
+      .withImplementation(({ 'auth.user': user }) => `Hello ${user.id}`)
+      .build();
+
+    expect(Object.keys(workflow.containers).sort()).toEqual(['auth.tokens', 'auth.user', 'config', 'greeting']);
+    expect(workflow.dependencies['auth.tokens']).toEqual(['config']);
+    expect(workflow.containers.greeting).toBe('Hello user-1');
+
+    const result = workflow.execute('auth.login');
+    expect(result.results['auth.user']).toBe('user-1@app');
+    expect(result.results.config).toBe('app');
+  });
+
+  it('should allow the same module to be used under different namespaces', () => {
+    const workflow = createHost()
+      .use(authModule, { namespace: 'admin' })
+      .use(authModule, { namespace: 'customer' })
+      .build();
+
+    expect(workflow.containers['admin.user']).toEqual(workflow.containers['customer.user']);
+  });
+
+  it('should report name collisions with the module names', () => {
+    const profileModule = defineModule('profile', (builder: WorkflowBuilder) => builder
+      .addStepWithoutDependencies('user')
+      .withImplementation(() => ({ name: 'Ada' }))
+    );
+
+    expect(() => createHost().use(authModule).use(profileModule))
+      .toThrow('Step "user" already exists in module "auth" (while using module "profile")');
+    expect(() => createHost().use(profileModule).use(profileModule))
+      .toThrow('Step "user" already exists in module "profile" (while using module "profile")');
+  });
+
+  it('should type-check the steps a module requires', () => {
+    const builder = new WorkflowBuilder()
+      .addStepWithoutDependencies('config')
+      .withImplementation(() => 'not a config');
+
+    // @ts-expect-error - The host config step does not match the type required by the module
+    builder.use(authModule);
+
+    // @ts-expect-error - The module requires a config step
+    expect(() => new WorkflowBuilder().use(authModule))
+      .toThrow('Dependency "config" does not exist for step "tokens" (while using module "auth")');
+  });
+});
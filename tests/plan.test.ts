@@ -0,0 +1,84 @@
+import { describe, it, expect } from '@jest/globals';
+import { WorkflowBuilder } from '../src';
+
+function createShopBuilder(calls: string[]) {
+  return new WorkflowBuilder()
+    .addStepWithoutDependencies('config')
+    .withImplementation(() => {
+      calls.push('config');
+      return {};
+    })
+    .addStep('db', ['config'])
+    .withImplementation(() => ({}))
+    .addStep('cache', ['config'])
+    .withImplementation(() => ({}))
+    .addStep('orders', ['db', 'cache'])
+    .withImplementation(() => ({}))
+    .addStepWithoutDependencies('mailer')
+    .withImplementation(() => ({}))
+    .defineFlow('checkout')
+    .addFlowStep('db')
+    .withFlowAction(() => {
+      calls.push('checkout');
+      return 'saved';
+    })
+    .addFlowStep('orders', ['db'])
+    .withFlowAction(() => 'placed')
+    .addFlowStep('mailer', ['orders'])
+    .withFlowAction(() => 'sent')
+    .endFlow();
+}
+
+describe('Execution Plans', () => {
+  it('should plan the build without running any step', () => {
+    const calls: string[] = [];
+
+    expect(createShopBuilder(calls).plan()).toEqual({
+      flowName: undefined,
+      order: ['config', 'db', 'cache', 'orders', 'mailer'],
+      levels: [['config', 'mailer'], ['db', 'cache'], ['orders']],
+      criticalPath: ['config', 'db', 'orders'],
+      criticalPathLength: 3,
+      dependencyChains: {
+        config: [],
+        db: ['config'],
+        cache: ['config'],
+        orders: ['config', 'db', 'cache'],
+        mailer: []
+      }
+    });
+    expect(calls).toEqual([]);
+  });
+
+  it('should plan a flow', () => {
+    const calls: string[] = [];
+    const workflow = createShopBuilder(calls).build();
+
+    expect(workflow.plan('checkout')).toEqual({
+      flowName: 'checkout',
+      order: ['db', 'orders', 'mailer'],
+      levels: [['db'], ['orders'], ['mailer']],
+      criticalPath: ['db', 'orders', 'mailer'],
+      criticalPathLength: 3,
+      dependencyChains: {
+        db: [],
+        orders: ['db'],
+        mailer: ['db', 'orders']
+      }
+    });
+    expect(calls).toEqual(['config']);
+  });
+
+  it('should give the same plan on the builder and the workflow', () => {
+    const builder = createShopBuilder([]);
+
+    expect(builder.plan('checkout')).toEqual(builder.build().plan('checkout'));
+  });
+
+  it('should reject unknown flows', () => {
+    // @ts-expect-error - Only defined flow names are accepted
+    expect(() => createShopBuilder([]).plan('unknown')).toThrow('Flow "unknown" does not exist');
+    // @ts-expect-error - The build flow is planned by calling plan without a flow name
+    expect(() => createShopBuilder([]).build().plan('__build__')).toThrow('Flow "__build__" does not exist');
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from '@jest/globals';
+import { WorkflowBuilder } from '../src';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function createSessionWorkflow(state: { version: number; failOn?: number }) {
+  return new WorkflowBuilder()
+    .addStepWithoutDependencies('session')
+    .withImplementation(async () => {
+      await delay(5);
+      return `session-${state.version}`;
+    })
+    .addStep('client', ['session'])
+    .withImplementation(async ({ session }) => {
+      await delay(20);
+      if (state.failOn === state.version) {
+        throw new Error(`Client ${state.version} failed`);
+      }
+      return `client-for-${await session}`;
+    });
+}
+
+describe('Refresh', () => {
+  it('should rebuild async containers with refreshAsync', async () => {
+    const state = { version: 1 };
+    const workflow = await createSessionWorkflow(state).buildAsync();
+
+    state.version = 2;
+    await workflow.refreshAsync();
+
+    expect(workflow.containers.session).toBe('session-2');
+    expect(workflow.containers.client).toBe('client-for-session-2');
+  });
+
+  it('should keep the previous containers until the refresh completes', async () => {
+    const state = { version: 1 };
+    const workflow = await createSessionWorkflow(state).buildAsync();
+
+    state.version = 2;
+    const refreshing = workflow.refreshAsync();
+    await delay(10);
+
+    // session-2 is already built, but not swapped in while client is still building
+    expect(workflow.containers.session).toBe('session-1');
+    expect(workflow.containers.client).toBe('client-for-session-1');
+
+    await refreshing;
+    expect(workflow.containers.session).toBe('session-2');
+  });
+
+  it('should keep the previous containers when the refresh fails', async () => {
+    const state = { version: 1, failOn: 2 };
+    const workflow = await createSessionWorkflow(state).buildAsync();
+
+    state.version = 2;
+    await expect(workflow.refreshAsync()).rejects.toThrow('Client 2 failed');
+
+    expect(workflow.containers.session).toBe('session-1');
+    expect(workflow.containers.client).toBe('client-for-session-1');
+  });
+
+  it('should run flows on the containers they started with while a refresh completes', async () => {
+    let version = 0;
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('a')
+      .withImplementation(() => `a${version}`)
+      .addStepWithoutDependencies('b')
+      .withImplementation(() => `b${version}`)
+      .defineFlow('read')
+      .addFlowStep('a')
+      .withFlowAction(async (a) => {
+        await delay(20);
+        return a;
+      })
+      .addFlowStep('b', ['a'])
+      .withFlowAction((b) => b)
+      .endFlow()
+      .build();
+
+    const running = workflow.executeAsync('read');
+    version = 1;
+    await workflow.refreshAsync();
+
+    expect((await running).results).toEqual({ a: 'a0', b: 'b0' });
+    expect((await workflow.executeAsync('read')).results).toEqual({ a: 'a1', b: 'b1' });
+  });
+
+  it('should fail fast whatever error policy is passed to a build', async () => {
+    const state = { version: 1, failOn: 2 };
+    const workflow = await createSessionWorkflow(state).buildAsync();
+
+    state.version = 2;
+    // @ts-expect-error - Builds do not accept an error policy
+    await expect(workflow.refreshAsync({ errorPolicy: 'continue' })).rejects.toThrow('Client 2 failed');
+
+    expect(workflow.containers.session).toBe('session-1');
+    expect(workflow.containers.client).toBe('client-for-session-1');
+
+    // @ts-expect-error - Builds do not accept an error policy
+    await expect(createSessionWorkflow(state).buildAsync({ errorPolicy: 'skipDependents' })).rejects.toThrow('Client 2 failed');
+  });
+
+  it('should keep the previous containers when a synchronous refresh fails', () => {
+    let version = 1;
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('config')
+      .withImplementation(() => ({ version }))
+      .addStep('client', ['config'])
+      .withImplementation(({ config }) => {
+        if (config.version === 2) {
+          throw new Error('Invalid config');
+        }
+        return { version: config.version };
+      })
+      .build();
+
+    version = 2;
+    expect(() => workflow.refresh()).toThrow('Invalid config');
+
+    expect(workflow.containers.config).toEqual({ version: 1 });
+    expect(workflow.containers.client).toEqual({ version: 1 });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from '@jest/globals';
+import { WorkflowBuilder } from '../src';
+import { getRetryDelay } from '../src/utils/retry';
+
+describe('Retry Policies', () => {
+  describe('Backoff Calculation', () => {
+    it('should use a fixed delay by default', () => {
+      const policy = { maxAttempts: 3, delayMs: 50 };
+      expect(getRetryDelay(policy, 1)).toBe(50);
+      expect(getRetryDelay(policy, 3)).toBe(50);
+    });
+
+    it('should grow exponentially and respect the maximum delay', () => {
+      const policy = { maxAttempts: 5, backoff: 'exponential' as const, delayMs: 10, maxDelayMs: 35 };
+      expect(getRetryDelay(policy, 1)).toBe(10);
+      expect(getRetryDelay(policy, 2)).toBe(20);
+      expect(getRetryDelay(policy, 3)).toBe(35);
+    });
+
+    it('should keep jittered delays within range', () => {
+      const policy = { maxAttempts: 3, delayMs: 100, jitter: 0.5 };
+      for (let i = 0; i < 20; i++) {
+        const delay = getRetryDelay(policy, 1);
+        expect(delay).toBeGreaterThanOrEqual(50);
+        expect(delay).toBeLessThanOrEqual(100);
+      }
+    });
+  });
+
+  describe('Build Steps', () => {
+    it('should retry a failing step implementation', () => {
+      let calls = 0;
+
+      const workflow = new WorkflowBuilder()
+        .addStepWithoutDependencies('flaky')
+        .withImplementation(() => {
+          calls++;
+          if (calls < 3) {
+            throw new Error('Connection reset');
+          }
+          return 'connected';
+        }, { retry: { maxAttempts: 3 } })
+        .build();
+
+      expect(workflow.containers.flaky).toBe('connected');
+      expect(calls).toBe(3);
+    });
+
+    it('should report the attempts when retries are exhausted', () => {
+      const builder = new WorkflowBuilder()
+        .addStepWithoutDependencies('broken')
+        .withImplementation(() => {
+          throw new Error('Always down');
+        }, { retry: { maxAttempts: 2 } });
+
+      expect(() => builder.build()).toThrow('Step "broken" failed after 2 attempts: Always down');
+    });
+
+    it('should wait between attempts in buildAsync', async () => {
+      const timestamps: number[] = [];
+
+      const workflow = await new WorkflowBuilder()
+        .addStepWithoutDependencies('flaky')
+        .withImplementation(async () => {
+          timestamps.push(Date.now());
+          if (timestamps.length < 2) {
+            throw new Error('Timeout');
+          }
+          return 'ok';
+        }, { retry: { maxAttempts: 2, delayMs: 30 } })
+        .buildAsync();
+
+      expect(workflow.containers.flaky).toBe('ok');
+      expect(timestamps[1] - timestamps[0]).toBeGreaterThanOrEqual(25);
+    });
+  });
+
+  describe('Flow Actions', () => {
+    it('should include attempt counts in the run result', async () => {
+      let calls = 0;
+
+      const workflow = new WorkflowBuilder()
+        .addStepWithoutDependencies('api')
+        .withImplementation(() => 'api')
+        .addStepWithoutDependencies('cache')
+        .withImplementation(() => 'cache')
+        .defineFlow('sync')
+        .addFlowStep('api')
+        .withFlowAction(async () => {
+          calls++;
+          if (calls % 2 === 1) {
+            throw new Error('Flaky');
+          }
+          return calls;
+        }, { retry: { maxAttempts: 2, backoff: 'exponential', delayMs: 1 } })
+        .addFlowStep('cache', ['api'])
+        .withFlowAction((cache) => cache)
+        .endFlow()
+        .build();
+
+      const result = await workflow.executeAsync('sync');
+
+      expect(result.results.api).toBe(2);
+      expect(result.attempts).toEqual({ api: 2, cache: 1 });
+    });
+
+    it('should only retry errors accepted by retryIf', () => {
+      let calls = 0;
+
+      const workflow = new WorkflowBuilder()
+        .addStepWithoutDependencies('api')
+        .withImplementation(() => 'api')
+        .defineFlow('save')
+        .addFlowStep('api')
+        .withFlowAction(() => {
+          calls++;
+          throw new Error('Validation failed');
+        }, {
+          retry: {
+            maxAttempts: 5,
+            retryIf: (error) => error instanceof Error && error.message.includes('Timeout')
+          }
+        })
+        .endFlow()
+        .build();
+
+      expect(() => workflow.execute('save')).toThrow('Step "api" failed: Validation failed');
+      expect(calls).toBe(1);
+    });
+
+    it('should not retry actions that return a Promise in execute', () => {
+      let calls = 0;
+
+      const workflow = new WorkflowBuilder()
+        .addStepWithoutDependencies('api')
+        .withImplementation(() => 'api')
+        .defineFlow('save')
+        .addFlowStep('api')
+        .withFlowAction(async () => {
+          calls++;
+          return true;
+        }, { retry: { maxAttempts: 3 } })
+        .endFlow()
+        .build();
+
+      expect(() => workflow.execute('save')).toThrow(/returned a Promise/);
+      expect(calls).toBe(1);
+    });
+  });
+});
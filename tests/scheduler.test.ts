@@ -0,0 +1,150 @@
+import { describe, it, expect } from '@jest/globals';
+import { WorkflowBuilder } from '../src';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * fast -> afterFast, slow -> afterSlow: afterFast shares a level with afterSlow
+ * but should not wait for slow to finish
+ */
+function createUnevenWorkflow(log: string[]) {
+  const track = (name: string, ms: number) => async () => {
+    log.push(`${name}:start`);
+    await delay(ms);
+    log.push(`${name}:end`);
+    return name;
+  };
+
+  return new WorkflowBuilder()
+    .addStepWithoutDependencies('fast')
+    .withImplementation(track('fast', 5))
+    .addStepWithoutDependencies('slow')
+    .withImplementation(track('slow', 60))
+    .addStep('afterFast', ['fast'])
+    .withImplementation(track('afterFast', 5))
+    .addStep('afterSlow', ['slow'])
+    .withImplementation(track('afterSlow', 5))
+    .defineFlow('run')
+    .addFlowStep('fast')
+    .withFlowAction(() => track('fast', 5)())
+    .addFlowStep('slow')
+    .withFlowAction(() => track('slow', 60)())
+    .addFlowStep('afterFast', ['fast'])
+    .withFlowAction(() => track('afterFast', 5)())
+    .addFlowStep('afterSlow', ['slow'])
+    .withFlowAction(() => track('afterSlow', 5)())
+    .endFlow();
+}
+
+describe('Dependency-driven Scheduling', () => {
+  it('should start a build step as soon as its own dependencies finished', async () => {
+    const log: string[] = [];
+
+    const workflow = await createUnevenWorkflow(log).buildAsync();
+
+    expect(log.indexOf('afterFast:end')).toBeLessThan(log.indexOf('slow:end'));
+    expect(workflow.containers.afterSlow).toBe('afterSlow');
+  });
+
+  it('should start a flow step as soon as its own dependencies finished', async () => {
+    const log: string[] = [];
+    const workflow = await createUnevenWorkflow(log).buildAsync();
+    log.length = 0;
+
+    const result = await workflow.executeAsync('run');
+
+    expect(result.results.afterFast).toBe('afterFast');
+    expect(log.indexOf('afterFast:start')).toBeLessThan(log.indexOf('slow:end'));
+    expect(log.indexOf('afterSlow:start')).toBeGreaterThan(log.indexOf('slow:end'));
+  });
+
+  it('should still report dependency levels in events', async () => {
+    const levels: Record<string, number> = {};
+    const workflow = await createUnevenWorkflow([]).buildAsync();
+    workflow.on('stepStart', ({ stepName, level }) => {
+      levels[stepName] = level;
+    });
+
+    await workflow.executeAsync('run');
+
+    expect(levels).toEqual({ fast: 0, slow: 0, afterFast: 1, afterSlow: 1 });
+  });
+
+  it('should cap the number of steps running at the same time', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const track = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(10);
+      running--;
+    };
+
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('a')
+      .withImplementation(track)
+      .addStepWithoutDependencies('b')
+      .withImplementation(track)
+      .addStepWithoutDependencies('c')
+      .withImplementation(track)
+      .addStepWithoutDependencies('d')
+      .withImplementation(track)
+      .defineFlow('all')
+      .addFlowStep('a')
+      .withFlowAction(track)
+      .addFlowStep('b')
+      .withFlowAction(track)
+      .addFlowStep('c')
+      .withFlowAction(track)
+      .addFlowStep('d')
+      .withFlowAction(track)
+      .endFlow();
+
+    await workflow.buildAsync({ concurrency: 2 });
+    expect(maxRunning).toBe(2);
+
+    maxRunning = 0;
+    const built = await workflow.buildAsync();
+    expect(maxRunning).toBe(4);
+
+    maxRunning = 0;
+    await built.executeAsync('all', undefined, { concurrency: 1 });
+    expect(maxRunning).toBe(1);
+  });
+
+  it('should not start new steps after a failure when failing fast', async () => {
+    const started: string[] = [];
+
+    const workflow = await new WorkflowBuilder()
+      .addStepWithoutDependencies('broken')
+      .withImplementation(() => ({}))
+      .addStepWithoutDependencies('slow')
+      .withImplementation(() => ({}))
+      .addStep('dependent', ['slow'])
+      .withImplementation(() => ({}))
+      .defineFlow('run')
+      .addFlowStep('broken')
+      .withFlowAction(async () => {
+        started.push('broken');
+        await delay(5);
+        throw new Error('Broken');
+      })
+      .addFlowStep('slow')
+      .withFlowAction(async (_, __, ___, { signal }) => {
+        started.push('slow');
+        await delay(30);
+        return signal.aborted;
+      })
+      .addFlowStep('dependent', ['slow'])
+      .withFlowAction(() => {
+        started.push('dependent');
+      })
+      .endFlow()
+      .buildAsync();
+
+    await expect(workflow.executeAsync('run')).rejects.toThrow('Broken');
+    await delay(40);
+
+    expect(started).toEqual(['broken', 'slow']);
+  });
+});
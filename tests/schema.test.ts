@@ -0,0 +1,99 @@
+import { describe, it, expect } from '@jest/globals';
+import { SchemaValidationError, WorkflowBuilder } from '../src';
+
+interface User {
+  id: string;
+  name: string;
+}
+
+const isUser = (value: unknown): value is User =>
+  typeof value === 'object' && value !== null && typeof (value as User).id === 'string' && typeof (value as User).name === 'string';
+
+// Minimal parser in the style of schema libraries, throwing an error with issues on invalid input
+const orderSchema = {
+  parse(value: unknown): { total: number; lines: Array<{ sku: string }> } {
+    const order = value as { total: unknown; lines: Array<{ sku: unknown }> };
+    const issues: Array<{ message: string; path: Array<string | number> }> = [];
+    if (typeof order.total !== 'number') {
+      issues.push({ message: 'Expected a number', path: ['total'] });
+    }
+    order.lines.forEach((line, index) => {
+      if (typeof line.sku !== 'string') {
+        issues.push({ message: 'Expected a string', path: ['lines', index, 'sku'] });
+      }
+    });
+    if (issues.length > 0) {
+      throw Object.assign(new Error('Invalid order'), { issues });
+    }
+    return { total: order.total as number, lines: order.lines as Array<{ sku: string }> };
+  }
+};
+
+function fetchJson(body: unknown): unknown {
+  return JSON.parse(JSON.stringify(body));
+}
+
+describe('Result Schemas', () => {
+  it('should type containers from a type guard', () => {
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('user')
+      .withSchema(isUser)
+      .withImplementation(() => fetchJson({ id: 'user-1', name: 'Ada' }))
+      .build();
+
+    const name: string = workflow.containers.user.name;
+    expect(name).toBe('Ada');
+  });
+
+  it('should fail a step whose result is rejected by its type guard', () => {
+    const builder = new WorkflowBuilder()
+      .addStepWithoutDependencies('user')
+      .withSchema(isUser)
+      .withImplementation(() => fetchJson({ id: 1 }));
+
+    expect(() => builder.build()).toThrow('Result of step "user" does not match its schema at result: Rejected by the type guard');
+  });
+
+  it('should report the path of the first issue of a parse object', async () => {
+    const builder = new WorkflowBuilder()
+      .addStepWithoutDependencies('order')
+      .withSchema(orderSchema)
+      .withImplementation(async () => fetchJson({ total: 30, lines: [{ sku: 'book' }, { sku: 7 }] }));
+
+    const error = await builder.buildAsync().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.message).toBe('Result of step "order" does not match its schema at result.lines[1].sku: Expected a string');
+    expect(error.stepName).toBe('order');
+    expect(error.path).toBe('result.lines[1].sku');
+    expect(error.issues).toEqual([{ message: 'Expected a string', path: ['lines', 1, 'sku'] }]);
+  });
+
+  it('should validate flow step results with the value returned by parse', async () => {
+    const workflow = new WorkflowBuilder()
+      .addStepWithoutDependencies('orders')
+      .withImplementation(() => ({ load: (total: unknown) => fetchJson({ total, lines: [], extra: true }) }))
+      .addStepWithoutDependencies('invoices')
+      .withImplementation(() => ({}))
+      .defineFlow('invoice')
+      .withInput<unknown>()
+      .addFlowStep('orders')
+      .withSchema(orderSchema)
+      .withFlowAction((orders, _, total) => orders.load(total))
+      .addFlowStep('invoices', ['orders'])
+      .withFlowAction((_, context) => `Invoice for ${context.orders.total.toFixed(2)}`)
+      .endFlow()
+      .build();
+
+    const result = await workflow.executeAsync('invoice', 12);
+    expect(result.results.orders).toEqual({ total: 12, lines: [] });
+    expect(result.results.invoices).toBe('Invoice for 12.00');
+
+    expect(() => workflow.execute('invoice', 'twelve'))
+      .toThrow('Result of step "orders" does not match its schema at result.total: Expected a number');
+
+    const reported = workflow.execute('invoice', 'twelve', { errorPolicy: 'continue' });
+    expect(reported.steps.orders.status).toBe('failed');
+    expect((reported.steps.orders.error as SchemaValidationError).path).toBe('result.total');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from '@jest/globals';
+import { WorkflowBuilder } from '../src';
+
+function createAppWorkflow(calls: string[]) {
+  return new WorkflowBuilder()
+    .addStepWithoutDependencies('config')
+    .withImplementation(() => {
+      calls.push('config');
+      return { greeting: 'Hello' };
+    })
+    .addStep('pool', ['config'])
+    .withDisposer(() => {
+      calls.push('pool:disposed');
+    })
+    .withImplementation(() => {
+      calls.push('pool');
+      return { query: (sql: string) => `result of ${sql}` };
+    })
+    .build();
+}
+
+describe('Scoped Workflows', () => {
+  it('should build scope steps on top of the parent containers without re-running them', () => {
+    const calls: string[] = [];
+    const app = createAppWorkflow(calls);
+
+    const request = app.createScope(scope => scope
+      .addStepWithoutDependencies('requestContext')
+      .withImplementation(() => ({ userId: 'user-1' }))
+      .addStep('session', ['requestContext', 'pool'])
+      .withImplementation(({ requestContext, pool }) => ({
+        user: pool.query(`user ${requestContext.userId}`)
+      }))
+    );
+
+    expect(request.containers.session.user).toBe('result of user user-1');
+    expect(request.containers.config).toBe(app.containers.config);
+    expect(calls).toEqual(['config', 'pool']);
+    expect(app.containers).not.toHaveProperty('session');
+  });
+
+  it('should give each scope its own flows and containers', () => {
+    const app = createAppWorkflow([]);
+    const createRequest = (userId: string) => app.createScope(scope => scope
+      .addStepWithoutDependencies('user')
+      .withImplementation(() => ({ id: userId }))
+      .defineFlow('greet')
+      .addFlowStep('config')
+      .withFlowAction(config => config.greeting)
+      .addFlowStep('user', ['config'])
+      .withFlowAction((user, context) => `${context.config}, ${user.id}`)
+      .endFlow()
+    );
+
+    const first = createRequest('alice');
+    const second = createRequest('bob');
+
+    expect(first.execute('greet').results.user).toBe('Hello, alice');
+    expect(second.execute('greet').results.user).toBe('Hello, bob');
+  });
+
+  it('should only dispose the containers of the scope', () => {
+    const calls: string[] = [];
+    const app = createAppWorkflow(calls);
+    const request = app.createScope(scope => scope
+      .addStep('session', ['pool'])
+      .withDisposer(() => {
+        calls.push('session:disposed');
+      })
+      .withImplementation(() => ({}))
+    );
+
+    request.dispose();
+
+    expect(calls).toEqual(['config', 'pool', 'session:disposed']);
+    expect(app.containers.pool).toBeDefined();
+  });
+
+  it('should build async scopes', async () => {
+    const app = createAppWorkflow([]);
+
+    const request = await app.createScopeAsync(scope => scope
+      .addStep('session', ['config'])
+      .withImplementation(async ({ config }) => `${config.greeting} from async`)
+    );
+
+    expect(request.containers.session).toBe('Hello from async');
+  });
+
+  it('should reject scope steps that collide with parent steps', () => {
+    const app = createAppWorkflow([]);
+
+    expect(() => app.createScope(scope => scope
+      // @ts-expect-error - Parent step names cannot be reused
+      .addStepWithoutDependencies('config')
+      .withImplementation(() => ({}))
+    )).toThrow('Step "config" already exists');
+  });
+
+  it('should keep typing across the parent and the scope', () => {
+    const app = createAppWorkflow([]);
+
+    expect(() => app.createScope(scope => scope
+      // @ts-expect-error - Unknown dependencies are rejected
+      .addStep('session', ['missing'])
+      .withImplementation(() => ({}))
+    )).toThrow('Dependency "missing" does not exist for step "session"');
+  });
+});
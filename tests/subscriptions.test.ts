@@ -0,0 +1,127 @@
+import { describe, it, expect } from '@jest/globals';
+import { WorkflowBuilder } from '../src';
+
+function createSessionWorkflow() {
+  let version = 0;
+
+  return new WorkflowBuilder()
+    .addStepWithoutDependencies('config')
+    .withImplementation(() => ({ theme: 'dark', version: ++version }))
+    .addStepWithoutDependencies('locale')
+    .withImplementation(() => 'en')
+    .addStep('session', ['config'])
+    .withImplementation(({ config }) => ({ theme: config.theme, version: config.version }))
+    .build();
+}
+
+describe('Container Subscriptions', () => {
+  it('should notify subscribers of the containers changed by a refresh', async () => {
+    const workflow = createSessionWorkflow();
+    const changes: string[][] = [];
+    const unsubscribe = workflow.subscribe(changed => changes.push(changed));
+
+    workflow.refresh();
+    // The locale is recomputed with the same value, so it is not reported as changed
+    expect(changes).toEqual([['config', 'session']]);
+
+    await workflow.invalidateAsync('config');
+    expect(changes).toHaveLength(2);
+
+    unsubscribe();
+    workflow.refresh();
+    expect(changes).toHaveLength(2);
+  });
+
+  it('should only notify the subscribers of the containers that changed', () => {
+    const workflow = createSessionWorkflow();
+    const sessions: unknown[] = [];
+    const locales: unknown[] = [];
+    workflow.subscribeTo('session', session => sessions.push(session));
+    workflow.subscribeTo('locale', locale => locales.push(locale));
+
+    workflow.invalidate('config');
+
+    expect(sessions).toEqual([{ theme: 'dark', version: 2 }]);
+    expect(locales).toEqual([]);
+  });
+
+  it('should return an immutable versioned snapshot that only changes with the containers', () => {
+    const workflow = createSessionWorkflow();
+    const snapshot = workflow.getSnapshot();
+
+    expect(snapshot.version).toBe(1);
+    expect(snapshot.containers.session).toEqual({ theme: 'dark', version: 1 });
+    expect(Object.isFrozen(snapshot) && Object.isFrozen(snapshot.containers)).toBe(true);
+    expect(workflow.getSnapshot()).toBe(snapshot);
+
+    workflow.invalidate('config');
+    const next = workflow.getSnapshot();
+
+    expect(next).not.toBe(snapshot);
+    expect(next.version).toBe(2);
+    // Unchanged containers keep their identity, so selectors reading them see no change
+    expect(next.containers.locale).toBe(snapshot.containers.locale);
+    expect(next.containers.session).not.toBe(snapshot.containers.session);
+  });
+
+  it('should work unbound, as useSyncExternalStore calls it', () => {
+    const workflow = createSessionWorkflow();
+    const { subscribe, getSnapshot } = workflow;
+    let notified = 0;
+
+    subscribe(() => notified++);
+    workflow.refresh();
+
+    expect(notified).toBe(1);
+    expect(getSnapshot()).toBe(workflow.getSnapshot());
+  });
+
+  it('should include and notify the containers a scope inherits from its parent', () => {
+    const workflow = createSessionWorkflow();
+    const scope = workflow.createScope(builder => builder
+      .addStep('request', ['session'])
+      .withImplementation(({ session }) => ({ theme: session.theme }))
+    );
+
+    const snapshot = scope.getSnapshot();
+    expect(snapshot.containers).toEqual({
+      config: { theme: 'dark', version: 1 },
+      locale: 'en',
+      session: { theme: 'dark', version: 1 },
+      request: { theme: 'dark' }
+    });
+    expect(scope.getSnapshot()).toBe(snapshot);
+
+    // Subscribers of the scope are notified when the parent replaces the containers it inherits
+    const changes: string[][] = [];
+    const sessions: unknown[] = [];
+    scope.subscribe(changed => changes.push(changed));
+    scope.subscribeTo('session', session => sessions.push(session));
+
+    workflow.invalidate('config');
+    const next = scope.getSnapshot();
+
+    expect(changes).toEqual([['config', 'session']]);
+    expect(sessions).toEqual([{ theme: 'dark', version: 2 }]);
+    expect(next.version).toBe(snapshot.version + 1);
+    expect(next.containers.session).toEqual({ theme: 'dark', version: 2 });
+    expect(next.containers.request).toBe(snapshot.containers.request);
+
+    // A disposed scope stops following its parent
+    scope.dispose();
+    changes.length = 0;
+    workflow.refresh();
+    expect(changes).toEqual([]);
+  });
+
+  it('should notify the removal of disposed containers', () => {
+    const workflow = createSessionWorkflow();
+    const changes: string[][] = [];
+    workflow.subscribe(changed => changes.push(changed));
+
+    workflow.dispose();
+
+    expect(changes).toEqual([['config', 'locale', 'session']]);
+    expect(workflow.getSnapshot().containers).toEqual({});
+  });
+});
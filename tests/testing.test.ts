@@ -0,0 +1,94 @@
+import { describe, it, expect } from '@jest/globals';
+import { WorkflowBuilder, createTestWorkflow } from '../src';
+
+interface ApiClient {
+  fetchUser: (id: string) => Promise<{ id: string; name: string }>;
+}
+
+function createProfileBuilder() {
+  return new WorkflowBuilder()
+    .addStepWithoutDependencies('config')
+    .withImplementation(() => ({ baseUrl: 'https://api.example.com' }))
+    .addStep('apiClient', ['config'])
+    .withImplementation(({ config }): ApiClient => ({
+      fetchUser: () => Promise.reject(new Error(`No network access to ${config.baseUrl}`))
+    }))
+    .addStep('profile', ['apiClient'])
+    .withImplementation(() => ({ greet: (name: string) => `Hello ${name}` }))
+    .defineFlow('showProfile')
+    .withInput<{ userId: string }>()
+    .addFlowStep('apiClient')
+    .withFlowAction((client, _, input) => client.fetchUser(input.userId))
+    .addFlowStep('profile', ['apiClient'])
+    .withFlowAction((profile, context) => profile.greet(context.apiClient.name))
+    .endFlow();
+}
+
+describe('Test Workflows', () => {
+  it('should replace step implementations and keep the dependency graph', async () => {
+    const builder = createProfileBuilder();
+    const test = createTestWorkflow(builder, {
+      steps: {
+        apiClient: () => ({ fetchUser: async (id: string) => ({ id, name: 'Ada' }) })
+      }
+    });
+    const workflow = test.build();
+
+    const result = await workflow.executeAsync('showProfile', { userId: 'user-1' });
+
+    expect(result.results.profile).toBe('Hello Ada');
+    expect(workflow.dependencies.profile).toEqual(['apiClient']);
+    expect(test.stepCalls('apiClient')).toEqual([{ input: { config: { baseUrl: 'https://api.example.com' } } }]);
+
+    // The original builder keeps its implementations
+    await expect(builder.build().executeAsync('showProfile', { userId: 'user-1' }))
+      .rejects.toThrow('No network access to https://api.example.com');
+  });
+
+  it('should replace flow actions and record their calls', async () => {
+    const test = createTestWorkflow(createProfileBuilder(), {
+      actions: {
+        showProfile: {
+          apiClient: (_, __, input) => ({ id: input.userId, name: 'Grace' })
+        }
+      }
+    });
+    const workflow = await test.buildAsync();
+
+    await workflow.executeAsync('showProfile', { userId: 'user-2' });
+
+    const [fetchCall] = test.actionCalls('showProfile', 'apiClient');
+    expect(fetchCall.container).toBe(workflow.containers.apiClient);
+    expect(fetchCall.context).toEqual({});
+    expect(fetchCall.input).toEqual({ userId: 'user-2' });
+
+    expect(test.actionCalls('showProfile', 'profile')).toEqual([{
+      container: workflow.containers.profile,
+      context: { apiClient: { id: 'user-2', name: 'Grace' } },
+      input: { userId: 'user-2' }
+    }]);
+  });
+
+  it('should clear the recorded calls', () => {
+    const test = createTestWorkflow(createProfileBuilder());
+    test.build();
+
+    expect(test.stepCalls('config')).toHaveLength(1);
+    test.clearCalls();
+    expect(test.stepCalls('config')).toEqual([]);
+  });
+
+  it('should type-check and validate the overrides', () => {
+    const builder = createProfileBuilder();
+
+    // @ts-expect-error - Replacements must return the type of the step they replace
+    createTestWorkflow(builder, { steps: { config: () => 'not a config' } });
+
+    // @ts-expect-error - Only defined steps can be replaced
+    expect(() => createTestWorkflow(builder, { steps: { mailer: () => ({}) } })).toThrow('Step "mailer" does not exist');
+
+    // @ts-expect-error - Only steps of the flow can have their action replaced
+    expect(() => createTestWorkflow(builder, { actions: { showProfile: { config: () => 'config' } } }))
+      .toThrow('Flow step "config" does not exist in flow "showProfile"');
+  });
+});
@@ -30,3 +30,19 @@ export function createDiamondWorkflow() {
     .addStep('d', ['b', 'c'])
     .withImplementation(({b, c}) => `d-${b}-${c}`);
 }
+
+// Run a function and collect the unhandled rejections raised until shortly after it completes
+export async function collectUnhandledRejections(run: () => unknown): Promise<unknown[]> {
+  const unhandled: unknown[] = [];
+  const onUnhandled = (reason: unknown) => unhandled.push(reason);
+  process.on('unhandledRejection', onUnhandled);
+
+  try {
+    await run();
+    await new Promise(resolve => setTimeout(resolve, 10));
+  } finally {
+    process.off('unhandledRejection', onUnhandled);
+  }
+
+  return unhandled;
+}